@@ -0,0 +1,221 @@
+import { call } from 'frappe-ui'
+import { reactive, ref } from 'vue'
+import { showErrorToast } from '../helpers'
+import { FIELDTYPES } from '../helpers/constants'
+import { createToast } from '../helpers/toasts'
+import { ReportFrequency } from '../reports/reports'
+import { Dimension, QueryResultRow } from '../types/query.types'
+
+export type ChartAlertCondition = 'Latest Value' | 'Total' | 'Percent Change'
+export type ChartAlertOperator = '>' | '>=' | '<' | '<=' | '=' | '!='
+export type ChartAlertStatus = 'Fired' | 'Failed'
+export type ChartAlert = {
+	name?: string
+	workbook: string
+	title: string
+	disabled?: boolean
+	// name of the chart in the workbook
+	chart: string
+	// name of the measure column in the results of the chart
+	measure: string
+	condition: ChartAlertCondition
+	operator: ChartAlertOperator
+	threshold: number
+	frequency: ReportFrequency
+	// HH:mm:ss, used by daily, weekly & monthly checks
+	check_time?: string
+	cron_format?: string
+	timezone?: string
+	// minutes after firing during which the alert does not fire again
+	cooldown: number
+	notify_email: boolean
+	// comma separated email addresses
+	recipients: string
+	notify_webhook: boolean
+	webhook_url: string
+	notify_in_app: boolean
+	last_execution?: string
+	last_fired_on?: string
+	last_value?: number
+	next_execution?: string
+}
+
+export type ChartAlertLog = {
+	name: string
+	alert: string
+	chart: string
+	status: ChartAlertStatus
+	value: number
+	threshold: number
+	channels: string
+	error?: string
+	creation: string
+}
+
+const alerts = ref<Record<string, ChartAlert[]>>({})
+
+const loading = ref(false)
+async function getAlerts(workbook: string) {
+	loading.value = true
+	return call('insights.api.alerts.get_chart_alerts', { workbook })
+		.then((data: ChartAlert[]) => {
+			alerts.value[workbook] = data.map((alert) => ({
+				...alert,
+				disabled: Boolean(alert.disabled),
+				notify_email: Boolean(alert.notify_email),
+				recipients: alert.recipients || '',
+				notify_webhook: Boolean(alert.notify_webhook),
+				webhook_url: alert.webhook_url || '',
+				notify_in_app: Boolean(alert.notify_in_app),
+			}))
+			return alerts.value[workbook]
+		})
+		.catch(showErrorToast)
+		.finally(() => {
+			loading.value = false
+		})
+}
+
+const saving = ref(false)
+async function saveAlert(alert: ChartAlert) {
+	saving.value = true
+	return call('insights.api.alerts.save_chart_alert', { alert })
+		.then(() => {
+			getAlerts(alert.workbook)
+			createToast({
+				message: 'Alert saved',
+				variant: 'success',
+			})
+			return true
+		})
+		.catch((e: Error) => {
+			showErrorToast(e)
+			return false
+		})
+		.finally(() => {
+			saving.value = false
+		})
+}
+
+async function deleteAlert(alert: ChartAlert) {
+	return call('insights.api.alerts.delete_chart_alert', { name: alert.name })
+		.then(() => {
+			getAlerts(alert.workbook)
+			createToast({
+				message: 'Alert deleted',
+				variant: 'success',
+			})
+		})
+		.catch(showErrorToast)
+}
+
+const testing = ref<Record<string, boolean>>({})
+async function testAlert(alert: ChartAlert) {
+	if (!alert.name) return
+	testing.value[alert.name] = true
+	return call('insights.api.alerts.test_chart_alert', { name: alert.name })
+		.then((status: ChartAlertStatus) => {
+			getAlerts(alert.workbook)
+			createToast({
+				message: status === 'Fired' ? 'Test alert sent' : 'Failed to send test alert',
+				variant: status === 'Fired' ? 'success' : 'error',
+			})
+		})
+		.catch(showErrorToast)
+		.finally(() => {
+			testing.value[alert.name!] = false
+		})
+}
+
+async function getAlertHistory(
+	workbook: string,
+	alert?: string,
+	limit = 50
+): Promise<ChartAlertLog[]> {
+	return call('insights.api.alerts.get_chart_alert_history', {
+		workbook,
+		alert,
+		limit,
+	}).catch((e: Error) => {
+		showErrorToast(e)
+		return []
+	})
+}
+
+// mirrors get_date_column in insights_chart_alert.py,
+// the x-axis of axis charts or the date column of number charts
+export function getAlertDateColumn(config: Record<string, any>) {
+	const dimension = [config.x_axis, config.date_column].find((d: Dimension | undefined) =>
+		FIELDTYPES.DATE.includes(d?.data_type || '')
+	)
+	return dimension?.dimension_name || dimension?.column_name
+}
+
+// mirrors get_alert_value in insights_chart_alert.py, the latest & previous values
+// are the last two rows of the chart, ordered by the date column if the chart has one
+export function getAlertValue(
+	rows: QueryResultRow[],
+	alert: Pick<ChartAlert, 'measure' | 'condition'>,
+	date_column?: string
+): number | null {
+	if (date_column) {
+		const getDate = (row: QueryResultRow) => String(row[date_column] || '')
+		rows = [...rows].sort((a, b) =>
+			getDate(a) < getDate(b) ? -1 : getDate(a) > getDate(b) ? 1 : 0
+		)
+	}
+	const values = rows
+		.map((row) => row[alert.measure])
+		.filter((value) => value !== null && value !== undefined)
+		.map((value) => Number(value) || 0)
+	if (!values.length) return null
+
+	if (alert.condition === 'Total') {
+		return values.reduce((total, value) => total + value, 0)
+	}
+	if (alert.condition === 'Percent Change') {
+		const [previous, latest] = values.slice(-2)
+		if (values.length < 2 || !previous) return null
+		return ((latest - previous) / Math.abs(previous)) * 100
+	}
+	return values[values.length - 1]
+}
+
+export function isAlertTriggered(
+	value: number | null,
+	alert: Pick<ChartAlert, 'operator' | 'threshold'>
+) {
+	if (value === null) return false
+	const threshold = Number(alert.threshold) || 0
+	switch (alert.operator) {
+		case '>':
+			return value > threshold
+		case '>=':
+			return value >= threshold
+		case '<':
+			return value < threshold
+		case '<=':
+			return value <= threshold
+		case '=':
+			return value === threshold
+		case '!=':
+			return value !== threshold
+	}
+}
+
+export default function useAlertStore() {
+	return reactive({
+		alerts,
+		loading,
+		getAlerts,
+
+		saving,
+		saveAlert,
+		deleteAlert,
+
+		testing,
+		testAlert,
+
+		getAlertHistory,
+	})
+}
@@ -8,11 +8,28 @@ import {
 	AXIS_CHARTS,
 	AxisChartConfig,
 	DountChartConfig,
+	DrillHierarchy,
+	HeatmapChartConfig,
+	MapChartConfig,
 	NumberChartConfig,
+	ScatterChartConfig,
 	TableChartConfig
 } from '../types/chart.types'
-import { FilterArgs, GranularityType, Measure, Operation } from '../types/query.types'
+import {
+	Dimension,
+	FilterArgs,
+	FilterRule,
+	GranularityType,
+	Measure,
+	Operation,
+	QueryParameterValues,
+	QueryResultRow,
+} from '../types/query.types'
 import { WorkbookChart } from '../types/workbook.types'
+import { getComparisonOperations, isComparisonEnabled } from './comparison'
+import { isFacetEnabled } from './facets'
+import { getDimensionFilters } from './helpers'
+import { isMapAvailable } from './maps'
 
 const charts = new Map<string, Chart>()
 
@@ -41,6 +58,11 @@ function makeChart(workbookChart: WorkbookChart) {
 			name: getUniqueId(),
 			operations: [],
 		}),
+		// fetches the values of the comparison period for axis charts
+		comparisonQuery: makeQuery({
+			name: getUniqueId(),
+			operations: [],
+		}),
 
 		refresh,
 		updateGranularity,
@@ -51,6 +73,15 @@ function makeChart(workbookChart: WorkbookChart) {
 		updateMeasure,
 		removeMeasure,
 
+		// the levels of the drill hierarchy the chart went through
+		drillPath: [] as ChartDrillStep[],
+		// the config with the current level of the drill hierarchy, used to prepare & render
+		// the chart while the saved config is left as it is
+		config: computed((): WorkbookChart['config'] => getDrilledConfig()),
+		canDrillDown,
+		drillDown,
+		drillUp,
+
 		history: {} as UseRefHistoryReturn<any, any>,
 	})
 
@@ -63,6 +94,7 @@ function makeChart(workbookChart: WorkbookChart) {
 		chart.doc.config = {} as WorkbookChart['config']
 		chart.doc.config.order_by = []
 		chart.doc.config.limit = 100
+		chart.drillPath = []
 		chart.dataQuery.reset()
 	}
 
@@ -81,23 +113,40 @@ function makeChart(workbookChart: WorkbookChart) {
 		}
 	)
 
+	// filters passed by the dashboard & the drill filters only apply to the current run,
+	// the chart is not saved with them
+	let isFilteredRun = false
 	function prepareDataQuery(filters?: FilterArgs[]) {
 		resetDataQuery()
 		setCustomFilters(filters || [])
+		isFilteredRun = Boolean(filters?.length) || chart.drillPath.length > 0
 		setChartFilters()
+		setDrillFilters()
 		let prepared = false
-		if (AXIS_CHARTS.includes(chart.doc.chart_type)) {
-			const _config = unref(chart.doc.config as AxisChartConfig)
+		if (isFaceted()) {
+			const _config = unref(chart.config as AxisChartConfig | DountChartConfig)
+			prepared = prepareFacetedChartQuery(_config)
+		} else if (AXIS_CHARTS.includes(chart.doc.chart_type)) {
+			const _config = unref(chart.config as AxisChartConfig)
 			prepared = prepareAxisChartQuery(_config)
 		} else if (chart.doc.chart_type === 'Number') {
-			const _config = unref(chart.doc.config as NumberChartConfig)
+			const _config = unref(chart.config as NumberChartConfig)
 			prepared = prepareNumberChartQuery(_config)
 		} else if (chart.doc.chart_type === 'Donut' || chart.doc.chart_type === 'Funnel') {
-			const _config = unref(chart.doc.config as DountChartConfig)
+			const _config = unref(chart.config as DountChartConfig)
 			prepared = prepareDonutChartQuery(_config)
 		} else if (chart.doc.chart_type === 'Table') {
-			const _config = unref(chart.doc.config as TableChartConfig)
+			const _config = unref(chart.config as TableChartConfig)
 			prepared = prepareTableChartQuery(_config)
+		} else if (chart.doc.chart_type === 'Scatter') {
+			const _config = unref(chart.config as ScatterChartConfig)
+			prepared = prepareScatterChartQuery(_config)
+		} else if (chart.doc.chart_type === 'Heatmap') {
+			const _config = unref(chart.config as HeatmapChartConfig)
+			prepared = prepareHeatmapChartQuery(_config)
+		} else if (chart.doc.chart_type === 'Map') {
+			const _config = unref(chart.config as MapChartConfig)
+			prepared = prepareMapChartQuery(_config)
 		} else {
 			console.warn('Unknown chart type: ', chart.doc.chart_type)
 		}
@@ -105,20 +154,28 @@ function makeChart(workbookChart: WorkbookChart) {
 			applySortOrder()
 			applyLimit()
 		}
+		prepareComparisonQuery(prepared)
 		return prepared
 	}
 
-	async function refresh(filters?: FilterArgs[], force = false) {
+	// parameters apply only to this run of the chart, the workbook queries keep their values
+	async function refresh(
+		filters?: FilterArgs[],
+		force = false,
+		parameters: QueryParameterValues = {}
+	) {
 		if (!workbookChart.query) return
 		if (!chart.doc.chart_type) return
 		if (chart.baseQuery.executing) {
 			await waitUntil(() => !chart.baseQuery.executing)
 		}
 
+		chart.dataQuery.setParameterValues(parameters)
+		chart.comparisonQuery.setParameterValues(parameters)
 		const prepared = prepareDataQuery(filters)
 		if (prepared) {
 			if (shouldExecuteQuery(force)) {
-				return executeQuery()
+				return executeQuery(force)
 			}
 		}
 	}
@@ -157,6 +214,75 @@ function makeChart(workbookChart: WorkbookChart) {
 		return true
 	}
 
+	function isFaceted() {
+		const config = chart.doc.config as AxisChartConfig | DountChartConfig
+		const chart_type = chart.doc.chart_type
+		return (AXIS_CHARTS.includes(chart_type) || chart_type === 'Donut') && isFacetEnabled(config)
+	}
+
+	// small multiples are drawn from a single query grouped by the facet dimension as well
+	function prepareFacetedChartQuery(config: AxisChartConfig | DountChartConfig) {
+		const facet = config.facet!.dimension!
+		const isAxisChart = AXIS_CHARTS.includes(chart.doc.chart_type)
+
+		const axisConfig = config as AxisChartConfig
+		const donutConfig = config as DountChartConfig
+		const dimension = isAxisChart ? axisConfig.x_axis : donutConfig.label_column
+		if (!dimension?.column_name) {
+			console.warn(isAxisChart ? 'X-axis is required' : 'Label is required')
+			chart.dataQuery.reset()
+			return false
+		}
+		if (
+			facet.column_name === dimension.column_name ||
+			(isAxisChart && facet.column_name === axisConfig.split_by?.column_name)
+		) {
+			createToast({
+				message: `Facet by cannot be the same as the ${
+					isAxisChart ? 'X-axis or Split by' : 'Label'
+				}`,
+				variant: 'error',
+			})
+			chart.dataQuery.reset()
+			return false
+		}
+
+		if (!isAxisChart) {
+			const value = donutConfig.value_column
+			if (!value?.measure_name) {
+				console.warn('Value column not found')
+				chart.dataQuery.reset()
+				return false
+			}
+			chart.dataQuery.addSummarize({
+				measures: [value],
+				dimensions: [dimension, facet],
+			})
+			chart.dataQuery.addOrderBy({
+				column: column(value.measure_name),
+				direction: 'desc',
+			})
+			return true
+		}
+
+		let values = axisConfig.y_axis?.series.map((s) => s.measure).filter((m) => m.measure_name)
+		values = values?.length ? values : [count()]
+
+		if (axisConfig.split_by?.column_name) {
+			chart.dataQuery.addPivotWider({
+				rows: [dimension, facet],
+				columns: [axisConfig.split_by],
+				values: values,
+			})
+		} else {
+			chart.dataQuery.addSummarize({
+				measures: values,
+				dimensions: [dimension, facet],
+			})
+		}
+		return true
+	}
+
 	function prepareNumberChartQuery(config: NumberChartConfig) {
 		const number_columns = config.number_columns?.filter((c) => c.measure_name)
 
@@ -239,6 +365,131 @@ function makeChart(workbookChart: WorkbookChart) {
 		return true
 	}
 
+	function prepareScatterChartQuery(config: ScatterChartConfig) {
+		if (!config.dimension?.column_name) {
+			console.warn('Dimension is required')
+			chart.dataQuery.reset()
+			return false
+		}
+		if (!config.x_measure?.measure_name || !config.y_measure?.measure_name) {
+			console.warn('X-axis and Y-axis are required')
+			chart.dataQuery.reset()
+			return false
+		}
+		if (config.x_measure.measure_name === config.y_measure.measure_name) {
+			createToast({
+				message: 'X-axis and Y-axis cannot be the same',
+				variant: 'error',
+			})
+			chart.dataQuery.reset()
+			return false
+		}
+
+		const measures = [config.x_measure, config.y_measure]
+		if (config.size_measure?.measure_name) {
+			measures.push(config.size_measure)
+		}
+		const dimensions = [config.dimension]
+		if (
+			config.color_dimension?.column_name &&
+			config.color_dimension.column_name !== config.dimension.column_name
+		) {
+			dimensions.push(config.color_dimension)
+		}
+
+		chart.dataQuery.addSummarize({ measures, dimensions })
+		return true
+	}
+
+	function prepareHeatmapChartQuery(config: HeatmapChartConfig) {
+		if (!config.x_dimension?.column_name || !config.y_dimension?.column_name) {
+			console.warn('X-axis and Y-axis are required')
+			chart.dataQuery.reset()
+			return false
+		}
+		if (config.x_dimension.column_name === config.y_dimension.column_name) {
+			createToast({
+				message: 'X-axis and Y-axis cannot be the same',
+				variant: 'error',
+			})
+			chart.dataQuery.reset()
+			return false
+		}
+
+		const value = config.value_column?.measure_name ? config.value_column : count()
+		chart.dataQuery.addSummarize({
+			measures: [value],
+			dimensions: [config.x_dimension, config.y_dimension],
+		})
+		return true
+	}
+
+	function prepareMapChartQuery(config: MapChartConfig) {
+		if (config.map && !isMapAvailable(config.map)) {
+			createToast({
+				message: `Map ${config.map} is not available`,
+				variant: 'error',
+			})
+			chart.dataQuery.reset()
+			return false
+		}
+
+		if (config.mode === 'Point') {
+			if (!config.latitude_column?.column_name || !config.longitude_column?.column_name) {
+				console.warn('Latitude and Longitude are required')
+				chart.dataQuery.reset()
+				return false
+			}
+
+			const measures = [config.size_measure, config.color_measure].filter(
+				(m, idx, arr): m is Measure =>
+					Boolean(m?.measure_name) &&
+					arr.findIndex((_m) => _m?.measure_name === m?.measure_name) === idx
+			)
+			chart.dataQuery.addSummarize({
+				measures: measures.length ? measures : [count()],
+				dimensions: [config.latitude_column, config.longitude_column],
+			})
+			return true
+		}
+
+		if (!config.map) {
+			console.warn('Map is required')
+			chart.dataQuery.reset()
+			return false
+		}
+		if (!config.region_column?.column_name) {
+			console.warn('Region is required')
+			chart.dataQuery.reset()
+			return false
+		}
+
+		const value = config.value_column?.measure_name ? config.value_column : count()
+		chart.dataQuery.addSummarize({
+			measures: [value],
+			dimensions: [config.region_column],
+		})
+		return true
+	}
+
+	function prepareComparisonQuery(prepared: boolean) {
+		chart.comparisonQuery.autoExecute = false
+		const config = chart.config as AxisChartConfig
+		if (
+			!prepared ||
+			!AXIS_CHARTS.includes(chart.doc.chart_type) ||
+			!isComparisonEnabled(config)
+		) {
+			chart.comparisonQuery.setOperations([])
+			return
+		}
+
+		chart.comparisonQuery.doc.use_live_connection = chart.dataQuery.doc.use_live_connection
+		chart.comparisonQuery.setOperations(
+			getComparisonOperations(chart.dataQuery.currentOperations, config)
+		)
+	}
+
 	function applySortOrder() {
 		if (!chart.doc.config.order_by) return
 		chart.doc.config.order_by.forEach((sort) => {
@@ -251,9 +502,41 @@ function makeChart(workbookChart: WorkbookChart) {
 	}
 
 	function applyLimit() {
-		if (chart.doc.config.limit) {
+		if (!chart.doc.config.limit) return
+		if (!isFaceted()) {
 			chart.dataQuery.addLimit(chart.doc.config.limit)
+			return
 		}
+
+		// each small multiple shows its own top rows, so the rows are ranked within their facet
+		// in the sort order of the chart and the ones ranked below the limit are dropped.
+		// without a sort order, the rows are numbered in the order of the x-axis
+		const config = chart.config as AxisChartConfig | DountChartConfig
+		const sort = chart.doc.config.order_by?.find((s) => s.column.column_name && s.direction)
+		const dimension = 'x_axis' in config ? config.x_axis : config.label_column
+		const sort_column = column(sort?.column.column_name || dimension.dimension_name)
+		const rank_column = '__facet_rank'
+		chart.dataQuery.addWindowOperation({
+			op: sort ? 'rank' : 'row_number',
+			column: sort_column,
+			new_name: rank_column,
+			partition_by: column(config.facet!.dimension!.dimension_name),
+			// rank orders by the column in descending order if the order is not set
+			order_by: !sort || sort.direction === 'asc' ? sort_column : undefined,
+		})
+		chart.dataQuery.addFilterGroup({
+			logical_operator: 'And',
+			filters: [
+				{
+					column: column(rank_column),
+					operator: '<=',
+					value: chart.doc.config.limit,
+				},
+			],
+		})
+		chart.dataQuery.removeColumn(rank_column)
+		// the order of the rows is not kept by the window operation
+		applySortOrder()
 	}
 
 	function resetDataQuery() {
@@ -278,17 +561,35 @@ function makeChart(workbookChart: WorkbookChart) {
 	}
 
 	const lastExecutedQueryOperations = ref<Operation[]>([])
+	const lastExecutedComparisonOperations = ref<Operation[]>([])
+	const lastExecutedParameters = ref<QueryParameterValues>({})
 	function shouldExecuteQuery(force = false) {
 		if (force) return true
 		return (
 			JSON.stringify(lastExecutedQueryOperations.value) !==
-			JSON.stringify(chart.dataQuery.currentOperations)
+				JSON.stringify(chart.dataQuery.currentOperations) ||
+			JSON.stringify(lastExecutedComparisonOperations.value) !==
+				JSON.stringify(chart.comparisonQuery.doc.operations) ||
+			JSON.stringify(lastExecutedParameters.value) !==
+				JSON.stringify(chart.dataQuery.parameterValues)
 		)
 	}
-	async function executeQuery() {
-		return chart.dataQuery.execute().then(() => {
+	async function executeQuery(force = false) {
+		// the saved operations are the ones prepared from the config of the chart alone
+		const saveOperations = !isFilteredRun
+		return Promise.all([
+			chart.dataQuery.execute(force),
+			chart.comparisonQuery.doc.operations.length
+				? chart.comparisonQuery.execute(force)
+				: undefined,
+		]).then(() => {
 			lastExecutedQueryOperations.value = copy(chart.dataQuery.currentOperations)
-			if (!areDeeplyEqual(chart.doc.operations, chart.dataQuery.currentOperations)) {
+			lastExecutedComparisonOperations.value = copy(chart.comparisonQuery.doc.operations)
+			lastExecutedParameters.value = copy(chart.dataQuery.parameterValues)
+			if (
+				saveOperations &&
+				!areDeeplyEqual(chart.doc.operations, chart.dataQuery.currentOperations)
+			) {
 				chart.doc.operations = copy(chart.dataQuery.currentOperations)
 			}
 		})
@@ -313,6 +614,87 @@ function makeChart(workbookChart: WorkbookChart) {
 		chart.dataQuery.addFilterGroup(chart.doc.config.filters)
 	}
 
+	function setDrillFilters() {
+		const filters = chart.drillPath.flatMap((step) => step.filters)
+		if (!filters.length) return
+		chart.dataQuery.addFilterGroup({
+			logical_operator: 'And',
+			filters,
+		})
+	}
+
+	function getDrillHierarchy(): DrillHierarchy | undefined {
+		if (!AXIS_CHARTS.includes(chart.doc.chart_type) && chart.doc.chart_type !== 'Donut') return
+		const config = chart.doc.config as AxisChartConfig | DountChartConfig
+		if (isFacetEnabled(config)) return
+		return config.drill_hierarchy
+	}
+
+	function getDrillLevels() {
+		return getDrillHierarchy()?.levels?.filter((l) => l.column_name) || []
+	}
+
+	function getDrillDimension(config: WorkbookChart['config']): Dimension | undefined {
+		if (chart.doc.chart_type === 'Donut') {
+			return (config as DountChartConfig).label_column
+		}
+		return (config as AxisChartConfig).x_axis
+	}
+
+	function getDrilledConfig(): WorkbookChart['config'] {
+		if (!chart.drillPath.length) return chart.doc.config
+
+		let dimension = getDrillDimension(chart.doc.config)
+		getDrillLevels()
+			.slice(0, chart.drillPath.length)
+			.forEach((level) => {
+				// a level on the same date column only changes the granularity
+				if (dimension?.column_name === level.column_name && level.granularity) {
+					dimension = { ...dimension, granularity: level.granularity }
+					return
+				}
+				dimension = {
+					...copy(level),
+					dimension_name: level.dimension_name || level.column_name,
+				}
+			})
+
+		const key = chart.doc.chart_type === 'Donut' ? 'label_column' : 'x_axis'
+		return { ...chart.doc.config, [key]: dimension } as WorkbookChart['config']
+	}
+
+	function canDrillDown() {
+		return getDrillLevels().length > chart.drillPath.length
+	}
+
+	// filters the chart to the clicked row and shows the next level of the hierarchy,
+	// the chart has to be refreshed by the caller
+	function drillDown(row: QueryResultRow) {
+		const dimension = getDrillDimension(chart.config)
+		const nextLevel = getDrillLevels()[chart.drillPath.length]
+		if (!dimension?.column_name || !nextLevel) return
+
+		const result = chart.dataQuery.result
+		const value = result.rows[result.formattedRows.indexOf(row)]?.[dimension.dimension_name]
+		if (value === undefined) return
+
+		chart.drillPath.push({
+			label: String(row[dimension.dimension_name] ?? ''),
+			dimension: copy(dimension),
+			filters: getDimensionFilters(
+				dimension.column_name,
+				dimension.data_type,
+				value,
+				dimension.granularity
+			),
+		})
+	}
+
+	// goes back to the level the chart was at before the given step
+	function drillUp(index = 0) {
+		chart.drillPath.splice(index)
+	}
+
 	function getShareLink() {
 		return (
 			chart.doc.share_link || `${window.location.origin}/insights/shared/chart/${chart.doc.name}`
@@ -348,3 +730,11 @@ function makeChart(workbookChart: WorkbookChart) {
 }
 
 export type Chart = ReturnType<typeof makeChart>
+
+export type ChartDrillStep = {
+	// value of the data point that was clicked
+	label: string
+	// dimension of the chart before the step
+	dimension: Dimension
+	filters: FilterRule[]
+}
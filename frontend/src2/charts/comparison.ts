@@ -0,0 +1,193 @@
+import type { Dayjs, ManipulateType, OpUnitType } from 'dayjs'
+import { FIELDTYPES } from '../helpers/constants'
+import dayjs from '../helpers/dayjs'
+import { getFiscalYearStartMonth } from '../query/helpers'
+import { AxisChartConfig, PeriodComparison } from '../types/chart.types'
+import {
+	FilterArgs,
+	FilterRule,
+	GranularityType,
+	Operation,
+	QueryResult,
+} from '../types/query.types'
+import { isFacetEnabled } from './facets'
+
+export function isComparisonEnabled(config: AxisChartConfig) {
+	return Boolean(
+		config.comparison?.type &&
+			config.x_axis?.column_name &&
+			config.x_axis.granularity &&
+			FIELDTYPES.DATE.includes(config.x_axis.data_type) &&
+			!config.split_by?.column_name &&
+			!isFacetEnabled(config)
+	)
+}
+
+const MONTHS_IN_PERIOD: Partial<Record<GranularityType, number>> = {
+	month: 1,
+	quarter: 3,
+	fiscal_quarter: 3,
+	year: 12,
+	fiscal_year: 12,
+}
+
+// returns how far back the comparison period is from a period of the given granularity
+export function getComparisonOffset(
+	comparison: PeriodComparison,
+	granularity: GranularityType
+): PeriodOffset {
+	if (comparison.type === 'previous_year') {
+		// weeks are compared with the same week of last year so that both start on the same day
+		return granularity === 'week' ? [52, 'week'] : [12, 'month']
+	}
+
+	const periods = comparison.type === 'custom' ? Math.max(Number(comparison.offset) || 1, 1) : 1
+	return getPeriodOffset(granularity, periods)
+}
+
+export type PeriodOffset = [number, 'day' | 'week' | 'month']
+export function getPeriodOffset(granularity: GranularityType, periods = 1): PeriodOffset {
+	if (granularity === 'day') return [periods, 'day']
+	if (granularity === 'week') return [periods, 'week']
+	return [periods * (MONTHS_IN_PERIOD[granularity] || 1), 'month']
+}
+
+export function getComparisonDate(
+	date: string,
+	comparison: PeriodComparison,
+	granularity: GranularityType
+) {
+	const [amount, unit] = getComparisonOffset(comparison, granularity)
+	return dayjs(date).subtract(amount, unit).format('YYYY-MM-DD')
+}
+
+export function getComparisonLabel(comparison: PeriodComparison) {
+	if (comparison.type === 'previous_year') return 'Last Year'
+	if (comparison.type === 'custom') {
+		const periods = Math.max(Number(comparison.offset) || 1, 1)
+		return periods === 1 ? '1 Period Ago' : `${periods} Periods Ago`
+	}
+	return 'Previous Period'
+}
+
+// the comparison query is the chart query with the x-axis filters moved back to the comparison period.
+// the limit is dropped as it would pick the same periods as the chart instead of the ones before them
+export function getComparisonOperations(operations: Operation[], config: AxisChartConfig) {
+	const granularity = config.x_axis.granularity as GranularityType
+	const offset = getComparisonOffset(config.comparison!, granularity)
+	const isXAxisFilter = (filter: FilterArgs): filter is FilterRule =>
+		'column' in filter && filter.column.column_name === config.x_axis.column_name
+	// the filters that cannot be moved back are dropped, so more periods are fetched than needed
+	const shift = (filter: FilterArgs) =>
+		isXAxisFilter(filter) ? shiftFilter(filter, offset) : filter
+
+	return operations.flatMap((op): Operation[] => {
+		if (op.type === 'limit') return []
+		if (op.type === 'filter') {
+			const filter = shift(op)
+			return filter ? [{ ...filter, type: 'filter' }] : []
+		}
+		if (op.type !== 'filter_group') return [op]
+
+		const filters = op.filters.map(shift)
+		if (op.logical_operator === 'Or' && filters.some((f) => !f)) return []
+		const shifted = filters.filter((f): f is FilterArgs => Boolean(f))
+		return shifted.length ? [{ ...op, filters: shifted }] : []
+	})
+}
+
+function shiftFilter(filter: FilterRule, offset: PeriodOffset): FilterRule | undefined {
+	if (filter.operator === 'is_set' || filter.operator === 'is_not_set') return filter
+
+	if (filter.operator === 'within') {
+		const range = getTimespanRange(filter.value)
+		if (!range) return
+		const [start, end] = range
+		return shiftFilter(
+			{
+				...filter,
+				operator: 'between',
+				value: [start.format('YYYY-MM-DD 00:00:00'), end.format('YYYY-MM-DD 23:59:59')],
+			},
+			offset
+		)
+	}
+
+	const values = Array.isArray(filter.value) ? filter.value : [filter.value]
+	const shifted = values.map((value) => shiftDate(value, offset))
+	if (shifted.some((value) => value === undefined)) return
+	return { ...filter, value: Array.isArray(filter.value) ? shifted : shifted[0] }
+}
+
+function shiftDate(value: any, offset: PeriodOffset) {
+	if (typeof value !== 'string' || !dayjs(value).isValid()) return
+	const [amount, unit] = offset
+	const date = dayjs(value)
+	const format = value.length > 10 ? 'YYYY-MM-DD HH:mm:ss' : 'YYYY-MM-DD'
+	let shifted = date.subtract(amount, unit)
+	// the last day of a month is moved to the last day of the earlier month, e.g. 31st Mar to 29th Feb
+	if (unit === 'month' && date.date() === date.daysInMonth()) {
+		shifted = shifted.date(shifted.daysInMonth())
+	}
+	return shifted.format(format)
+}
+
+// mirrors get_date_range of the server, e.g. "Last 7 Days" or "Current Fiscal Year"
+function getTimespanRange(timespan: FilterRule['value']): [Dayjs, Dayjs] | undefined {
+	const text = Array.isArray(timespan) ? timespan.join(' ') : String(timespan)
+	const [span, ...parts] = text.toLowerCase().split(' ')
+	const count = span === 'current' ? 0 : Number(parts.shift())
+	const unit = parts.join(' ').replace(/s$/, '')
+	if (!TIMESPAN_UNITS.includes(unit) || isNaN(count)) return
+
+	const today = dayjs()
+	if (span === 'current') {
+		return [getStartOf(today, unit), getEndOf(today, unit)]
+	}
+	if (span !== 'last' && span !== 'next') return
+
+	const direction = span === 'last' ? -1 : 1
+	const add = (date: Dayjs, n: number) =>
+		unit === 'fiscal year' ? date.add(n, 'year') : date.add(n, unit as ManipulateType)
+	const [from, to] = [add(today, direction * count), add(today, direction)].sort(
+		(a, b) => a.valueOf() - b.valueOf()
+	)
+	return [getStartOf(from, unit), getEndOf(to, unit)]
+}
+
+const TIMESPAN_UNITS = ['day', 'week', 'month', 'quarter', 'year', 'fiscal year']
+
+function getStartOf(date: Dayjs, unit: string) {
+	if (unit !== 'fiscal year') return date.startOf(unit as OpUnitType)
+	const startMonth = getFiscalYearStartMonth()
+	const year = date.month() >= startMonth ? date.year() : date.year() - 1
+	return dayjs(new Date(year, startMonth, 1))
+}
+
+function getEndOf(date: Dayjs, unit: string) {
+	if (unit !== 'fiscal year') return date.endOf(unit as OpUnitType)
+	return getStartOf(date, unit).add(1, 'year').subtract(1, 'day')
+}
+
+// returns the value of the comparison period for each of the x-axis values
+export function getComparisonValues(
+	config: AxisChartConfig,
+	comparisonResult: QueryResult,
+	x_values: string[],
+	column_name: string
+) {
+	const x_axis = config.x_axis.dimension_name
+	const granularity = config.x_axis.granularity as GranularityType
+	const valueByDate = new Map(
+		comparisonResult.rows.map((row) => [dayjs(row[x_axis]).format('YYYY-MM-DD'), row[column_name]])
+	)
+	return x_values.map((x_value) => {
+		const date = getComparisonDate(x_value, config.comparison!, granularity)
+		return valueByDate.get(date) ?? null
+	})
+}
+
+export function getPercentChange(current: number, previous: number) {
+	if (!previous || current === null || current === undefined) return null
+	return ((current - previous) / Math.abs(previous)) * 100
+}
@@ -0,0 +1,191 @@
+import { ConditionalFormatRule } from '../types/chart.types'
+import { QueryResultColumn, QueryResultRow } from '../types/query.types'
+
+export type CellFormat = {
+	style?: Record<string, string>
+	bar?: { width: number; color: string }
+	icon?: 'up' | 'down' | 'flat'
+}
+
+type Range = { min: number; max: number }
+
+const DEFAULT_MIN_COLOR = '#FFFFFF'
+const DEFAULT_MAX_COLOR = '#3B82F6'
+const DEFAULT_BAR_COLOR = '#93C5FD'
+
+// pivoted columns are named as value1___value2___measure
+export function isRuleColumn(rule: ConditionalFormatRule, column_name: string) {
+	if (!rule.column_name) return false
+	return column_name === rule.column_name || column_name.endsWith(`___${rule.column_name}`)
+}
+
+// returns a function that returns the format of a cell, the ranges of the rules
+// are computed once across all the columns the rule applies to
+export function getConditionalFormatter(
+	rules: ConditionalFormatRule[] | undefined,
+	columns: QueryResultColumn[] | undefined,
+	rows: QueryResultRow[] | undefined
+) {
+	if (!rules?.length || !columns?.length || !rows?.length) {
+		return () => undefined
+	}
+
+	const ranges = rules.map((rule) => {
+		const values = columns
+			.filter((column) => isRuleColumn(rule, column.name))
+			.flatMap((column) => rows.map((row) => toNumber(row[column.name])))
+			.filter((value): value is number => value !== undefined)
+		if (!values.length) return { min: 0, max: 0 }
+		return { min: Math.min(...values), max: Math.max(...values) }
+	})
+
+	return (column_name: string, value: any): CellFormat | undefined => {
+		const number = toNumber(value)
+		if (number === undefined) return
+
+		let format: CellFormat | undefined
+		rules.forEach((rule, idx) => {
+			if (!isRuleColumn(rule, column_name)) return
+			const ruleFormat = applyRule(rule, ranges[idx], number)
+			if (!ruleFormat) return
+			// later rules override the earlier ones
+			format = {
+				style: { ...format?.style, ...ruleFormat.style },
+				bar: ruleFormat.bar || format?.bar,
+				icon: ruleFormat.icon || format?.icon,
+			}
+		})
+		return format
+	}
+}
+
+function applyRule(rule: ConditionalFormatRule, range: Range, value: number): CellFormat | void {
+	switch (rule.type) {
+		case 'color_scale':
+			return getColorScaleFormat(rule, range, value)
+		case 'threshold':
+			return getThresholdFormat(rule, value)
+		case 'data_bar':
+			return getDataBarFormat(rule, range, value)
+		case 'icon_set':
+			return getIconSetFormat(rule, range, value)
+	}
+}
+
+function getColorScaleFormat(rule: ConditionalFormatRule, range: Range, value: number) {
+	const min = toNumber(rule.min_value) ?? range.min
+	const max = toNumber(rule.max_value) ?? range.max
+	const mid = toNumber(rule.mid_value) ?? (rule.mid_color ? (min + max) / 2 : undefined)
+	const minColor = rule.min_color || DEFAULT_MIN_COLOR
+	const maxColor = rule.max_color || DEFAULT_MAX_COLOR
+
+	let color
+	if (mid !== undefined && rule.mid_color) {
+		color =
+			value <= mid
+				? interpolateColor(minColor, rule.mid_color, getRatio(value, min, mid))
+				: interpolateColor(rule.mid_color, maxColor, getRatio(value, mid, max))
+	} else {
+		color = interpolateColor(minColor, maxColor, getRatio(value, min, max))
+	}
+
+	return {
+		style: {
+			backgroundColor: color,
+			color: isDarkColor(color) ? '#FFFFFF' : '#1F2937',
+		},
+	}
+}
+
+function getThresholdFormat(rule: ConditionalFormatRule, value: number) {
+	if (!rule.operator || !matchesThreshold(rule, value)) return
+	const style = {} as Record<string, string>
+	if (rule.background_color) style.backgroundColor = rule.background_color
+	if (rule.text_color) style.color = rule.text_color
+	return { style }
+}
+
+function matchesThreshold(rule: ConditionalFormatRule, value: number) {
+	const threshold = toNumber(rule.value)
+	if (threshold === undefined) return false
+	switch (rule.operator) {
+		case '>':
+			return value > threshold
+		case '>=':
+			return value >= threshold
+		case '<':
+			return value < threshold
+		case '<=':
+			return value <= threshold
+		case '=':
+			return value === threshold
+		case '!=':
+			return value !== threshold
+		case 'between': {
+			const to = toNumber(rule.value_to)
+			return (
+				to !== undefined && value >= Math.min(threshold, to) && value <= Math.max(threshold, to)
+			)
+		}
+	}
+	return false
+}
+
+// bars are drawn relative to the largest absolute value of the column
+function getDataBarFormat(rule: ConditionalFormatRule, range: Range, value: number) {
+	const max = Math.max(Math.abs(range.min), Math.abs(range.max))
+	if (!max) return
+	return {
+		bar: {
+			width: Math.round((Math.abs(value) / max) * 100),
+			color: rule.bar_color || DEFAULT_BAR_COLOR,
+		},
+	}
+}
+
+// arrows point up or down relative to the value of the rule if it is set,
+// otherwise the range of the column is split in three
+function getIconSetFormat(rule: ConditionalFormatRule, range: Range, value: number): CellFormat {
+	const pivot = toNumber(rule.value)
+	if (pivot !== undefined) {
+		return { icon: value > pivot ? 'up' : value < pivot ? 'down' : 'flat' }
+	}
+	const third = (range.max - range.min) / 3
+	if (!third) return { icon: 'flat' }
+	if (value >= range.max - third) return { icon: 'up' }
+	if (value <= range.min + third) return { icon: 'down' }
+	return { icon: 'flat' }
+}
+
+function getRatio(value: number, min: number, max: number) {
+	if (max === min) return value >= max ? 1 : 0
+	return Math.min(Math.max((value - min) / (max - min), 0), 1)
+}
+
+function interpolateColor(from: string, to: string, ratio: number) {
+	const a = hexToRgb(from)
+	const b = hexToRgb(to)
+	if (!a || !b) return ratio < 0.5 ? from : to
+	const rgb = a.map((c, idx) => Math.round(c + (b[idx] - c) * ratio))
+	return `#${rgb.map((c) => c.toString(16).padStart(2, '0')).join('')}`
+}
+
+function hexToRgb(color: string) {
+	let hex = color.replace('#', '')
+	if (hex.length === 3) hex = hex.replace(/./g, '$&$&')
+	if (!/^[0-9a-f]{6}$/i.test(hex)) return
+	return [0, 2, 4].map((idx) => parseInt(hex.slice(idx, idx + 2), 16))
+}
+
+function isDarkColor(color: string) {
+	const rgb = hexToRgb(color)
+	if (!rgb) return false
+	const [r, g, b] = rgb
+	return 0.299 * r + 0.587 * g + 0.114 * b < 140
+}
+
+function toNumber(value: any) {
+	if (value === null || value === undefined || value === '') return
+	const number = Number(value)
+	return isNaN(number) ? undefined : number
+}
@@ -0,0 +1,67 @@
+import { FIELDTYPES } from '../helpers/constants'
+import { AxisChartConfig, DountChartConfig } from '../types/chart.types'
+import { QueryResult } from '../types/query.types'
+
+export const DEFAULT_FACET_LIMIT = 12
+export const MAX_FACET_LIMIT = 50
+
+export function isFacetEnabled(config: AxisChartConfig | DountChartConfig) {
+	return Boolean(config.facet?.dimension?.column_name)
+}
+
+export function getFacetLimit(config: AxisChartConfig | DountChartConfig) {
+	const limit = Number(config.facet?.limit) || DEFAULT_FACET_LIMIT
+	return Math.min(Math.max(limit, 1), MAX_FACET_LIMIT)
+}
+
+export type FacetResult = {
+	value: any
+	label: string
+	result: QueryResult
+}
+
+// splits the result into one result per value of the facet dimension, dates are kept
+// in order and other values are sorted by their totals, largest first
+export function getFacets(config: AxisChartConfig | DountChartConfig, result: QueryResult) {
+	const dimension = config.facet?.dimension
+	if (!dimension?.column_name) return []
+
+	const facet_column = dimension.dimension_name
+	const columns = result.columns.filter((c) => c.name !== facet_column)
+	const number_columns = columns.filter((c) => FIELDTYPES.NUMBER.includes(c.type))
+
+	const indexesByValue = new Map<any, number[]>()
+	result.rows.forEach((row, idx) => {
+		const value = row[facet_column]
+		if (!indexesByValue.has(value)) indexesByValue.set(value, [])
+		indexesByValue.get(value)!.push(idx)
+	})
+
+	const getTotal = (indexes: number[]) =>
+		indexes.reduce((total, idx) => {
+			const row = result.rows[idx]
+			return total + number_columns.reduce((acc, c) => acc + (Number(row[c.name]) || 0), 0)
+		}, 0)
+
+	const values = Array.from(indexesByValue.keys())
+	if (FIELDTYPES.DATE.includes(dimension.data_type)) {
+		values.sort((a, b) => new Date(a).getTime() - new Date(b).getTime())
+	} else {
+		const totals = new Map(values.map((v) => [v, getTotal(indexesByValue.get(v)!)]))
+		values.sort((a, b) => totals.get(b)! - totals.get(a)!)
+	}
+
+	return values.slice(0, getFacetLimit(config)).map((value) => {
+		const indexes = indexesByValue.get(value)!
+		return {
+			value,
+			label: String(result.formattedRows[indexes[0]]?.[facet_column] ?? value),
+			result: {
+				...result,
+				columns,
+				rows: indexes.map((idx) => result.rows[idx]),
+				formattedRows: indexes.map((idx) => result.formattedRows[idx]),
+			},
+		} as FacetResult
+	})
+}
@@ -0,0 +1,165 @@
+import { ForecastMethod, TrendlineType } from '../types/chart.types'
+
+export type ForecastResult = {
+	values: number[]
+	lower: number[]
+	upper: number[]
+}
+
+// z-scores of the supported confidence levels
+const Z_SCORES: Record<number, number> = { 80: 1.282, 90: 1.645, 95: 1.96, 99: 2.576 }
+
+export function getTrendline(values: number[], type: TrendlineType, window = 3) {
+	if (type === 'moving_average') return getMovingAverage(values, window)
+	if (type === 'exponential') return getExponentialTrend(values)
+	return getLinearTrend(values)
+}
+
+export function getForecast(
+	values: number[],
+	method: ForecastMethod,
+	periods: number,
+	confidence = 95,
+	seasonLength = 0
+): ForecastResult {
+	if (values.length < 2 || periods < 1) {
+		return { values: [], lower: [], upper: [] }
+	}
+	if (method === 'holt_winters') {
+		return getHoltWintersForecast(values, periods, confidence, seasonLength)
+	}
+	return getLinearForecast(values, periods, confidence)
+}
+
+function getLinearRegression(values: number[]) {
+	const n = values.length
+	const xMean = (n - 1) / 2
+	const yMean = values.reduce((a, b) => a + b, 0) / n
+
+	let numerator = 0
+	let denominator = 0
+	values.forEach((y, x) => {
+		numerator += (x - xMean) * (y - yMean)
+		denominator += (x - xMean) ** 2
+	})
+
+	const slope = denominator ? numerator / denominator : 0
+	const intercept = yMean - slope * xMean
+	return { slope, intercept }
+}
+
+function getLinearTrend(values: number[]) {
+	const { slope, intercept } = getLinearRegression(values)
+	return values.map((_, x) => intercept + slope * x)
+}
+
+// fits a line to the log of the values, so only works with positive values
+function getExponentialTrend(values: number[]) {
+	if (values.some((v) => v <= 0)) return getLinearTrend(values)
+	const { slope, intercept } = getLinearRegression(values.map(Math.log))
+	return values.map((_, x) => Math.exp(intercept + slope * x))
+}
+
+function getMovingAverage(values: number[], window: number) {
+	const size = Math.max(Math.floor(window) || 1, 1)
+	return values.map((_, idx) => {
+		if (idx < size - 1) return null
+		const slice = values.slice(idx - size + 1, idx + 1)
+		return slice.reduce((a, b) => a + b, 0) / size
+	})
+}
+
+function getLinearForecast(values: number[], periods: number, confidence: number) {
+	const { slope, intercept } = getLinearRegression(values)
+	const errors = values.map((y, x) => y - (intercept + slope * x))
+
+	const forecast = Array.from(
+		{ length: periods },
+		(_, h) => intercept + slope * (values.length + h)
+	)
+	return withConfidenceBand(forecast, errors, confidence)
+}
+
+// additive Holt-Winters, falls back to Holt's linear trend method without enough seasons
+function getHoltWintersForecast(
+	values: number[],
+	periods: number,
+	confidence: number,
+	seasonLength: number
+) {
+	const hasSeasonality = seasonLength > 1 && values.length >= seasonLength * 2
+
+	// the smoothing parameters with the least one-step-ahead error are used
+	const candidates = [0.1, 0.3, 0.5, 0.7, 0.9]
+	let best = null as ReturnType<typeof runHoltWinters> | null
+	for (const alpha of candidates) {
+		for (const beta of candidates) {
+			for (const gamma of hasSeasonality ? candidates : [0]) {
+				const season = hasSeasonality ? seasonLength : 0
+				const run = runHoltWinters(values, periods, season, alpha, beta, gamma)
+				if (!best || run.sse < best.sse) best = run
+			}
+		}
+	}
+	return withConfidenceBand(best!.forecast, best!.errors, confidence)
+}
+
+function runHoltWinters(
+	values: number[],
+	periods: number,
+	seasonLength: number,
+	alpha: number,
+	beta: number,
+	gamma: number
+) {
+	const seasonal = seasonLength ? getInitialSeasonality(values, seasonLength) : []
+	const getSeason = (idx: number) => (seasonLength ? seasonal[idx % seasonLength] : 0)
+
+	let level = values[0]
+	let trend = seasonLength
+		? (mean(values.slice(seasonLength, seasonLength * 2)) - mean(values.slice(0, seasonLength))) /
+		  seasonLength
+		: values[1] - values[0]
+
+	const errors = [] as number[]
+	for (let idx = 1; idx < values.length; idx++) {
+		const value = values[idx]
+		const predicted = level + trend + getSeason(idx)
+		errors.push(value - predicted)
+
+		const lastLevel = level
+		level = alpha * (value - getSeason(idx)) + (1 - alpha) * (level + trend)
+		trend = beta * (level - lastLevel) + (1 - beta) * trend
+		if (seasonLength) {
+			seasonal[idx % seasonLength] =
+				gamma * (value - level) + (1 - gamma) * seasonal[idx % seasonLength]
+		}
+	}
+
+	const forecast = Array.from(
+		{ length: periods },
+		(_, h) => level + (h + 1) * trend + getSeason(values.length + h)
+	)
+	const sse = errors.reduce((acc, e) => acc + e ** 2, 0)
+	return { forecast, errors, sse }
+}
+
+function getInitialSeasonality(values: number[], seasonLength: number) {
+	const seasonAverage = mean(values.slice(0, seasonLength))
+	return values.slice(0, seasonLength).map((v) => v - seasonAverage)
+}
+
+// the band widens with the square root of the number of periods ahead
+function withConfidenceBand(forecast: number[], errors: number[], confidence: number) {
+	const z = Z_SCORES[confidence] || Z_SCORES[95]
+	const std = Math.sqrt(errors.reduce((acc, e) => acc + e ** 2, 0) / Math.max(errors.length - 1, 1))
+	return {
+		values: forecast,
+		lower: forecast.map((v, h) => v - z * std * Math.sqrt(h + 1)),
+		upper: forecast.map((v, h) => v + z * std * Math.sqrt(h + 1)),
+	}
+}
+
+function mean(values: number[]) {
+	return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0
+}
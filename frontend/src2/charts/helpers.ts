@@ -1,27 +1,51 @@
 import { graphic } from 'echarts/core'
-import { copy, ellipsis, formatNumber, getShortNumber, getUniqueId } from '../helpers'
+import {
+	copy,
+	ellipsis,
+	formatValue,
+	getColumnFormat,
+	getMeasureFormats,
+	getUniqueId,
+} from '../helpers'
 import { FIELDTYPES } from '../helpers/constants'
-import { column, getFormattedDate } from '../query/helpers'
+import dayjs from '../helpers/dayjs'
+import { column, count, getFormattedDate } from '../query/helpers'
 import useQuery from '../query/query'
 import {
 	AxisChartConfig,
 	BarChartConfig,
 	ChartConfig,
+	ChartType,
 	DountChartConfig,
+	HeatmapChartConfig,
 	LineChartConfig,
+	MapChartConfig,
+	ReferenceLine,
+	ScatterChartConfig,
 	Series,
 	SeriesLine,
 } from '../types/chart.types'
 import {
 	ColumnDataType,
+	Dimension,
 	FilterRule,
 	GranularityType,
+	NumberFormat,
 	Operation,
 	QueryResult,
 	QueryResultColumn,
 	QueryResultRow,
 } from '../types/query.types'
 import { getColors } from './colors'
+import {
+	getComparisonLabel,
+	getComparisonValues,
+	getPercentChange,
+	getPeriodOffset,
+	isComparisonEnabled,
+} from './comparison'
+import { FacetResult } from './facets'
+import { getForecast, getTrendline } from './forecast'
 
 // eslint-disable-next-line no-unused-vars
 export function guessChart(columns: QueryResultColumn[], rows: QueryResultRow[]) {
@@ -40,7 +64,11 @@ export function guessChart(columns: QueryResultColumn[], rows: QueryResultRow[])
 	if (discreteDimensions.length > 1 && measures.length) return 'table'
 }
 
-export function getLineChartOptions(config: LineChartConfig, result: QueryResult) {
+export function getLineChartOptions(
+	config: LineChartConfig,
+	result: QueryResult,
+	comparisonResult?: QueryResult
+) {
 	const _columns = result.columns
 	const _rows = result.rows
 
@@ -51,8 +79,9 @@ export function getLineChartOptions(config: LineChartConfig, result: QueryResult
 	const xAxisIsDate = FIELDTYPES.DATE.includes(config.x_axis.data_type)
 	const granularity = xAxisIsDate ? getGranularity(config.x_axis.dimension_name, config) : null
 
-	const leftYAxis = getYAxis()
-	const rightYAxis = getYAxis()
+	const formats = getMeasureFormats(config.y_axis.series.map((s) => s.measure))
+	const leftYAxis = getYAxis({ format: getAxisFormat(config, 'Left') })
+	const rightYAxis = getYAxis({ format: getAxisFormat(config, 'Right') })
 	const hasRightAxis = config.y_axis.series.some((s) => s.align === 'Right')
 	const yAxis = !hasRightAxis ? [leftYAxis] : [leftYAxis, rightYAxis]
 
@@ -72,54 +101,72 @@ export function getLineChartOptions(config: LineChartConfig, result: QueryResult
 		})
 
 	const colors = getColors()
-
-	return {
-		animation: true,
-		animationDuration: 700,
-		grid: getGrid({ show_legend }),
-		color: colors,
-		xAxis,
-		yAxis,
-		series: number_columns.map((c, idx) => {
-			const serie = getSerie(config, c.name) as SeriesLine
-
-			const is_right_axis = serie.align === 'Right'
-			const type = serie.type?.toLowerCase() || 'line'
-			const smooth = serie.smooth ?? config.y_axis.smooth
-			const show_data_points = serie.show_data_points ?? config.y_axis.show_data_points
-			const show_area = serie.show_area ?? config.y_axis.show_area
-			const show_data_labels = serie.show_data_labels ?? config.y_axis.show_data_labels
-			const color = serie.color?.[0] || colors[idx]
-			const name = config.split_by?.column_name ? c.name : serie.measure.measure_name || c.name
-
-			return {
-				type,
-				name,
-				data: getSeriesData(c.name),
-				color: color,
-				yAxisIndex: is_right_axis ? 1 : 0,
-				smooth: smooth ? 0.4 : false,
-				smoothMonotone: 'x',
-				showSymbol: show_data_points || show_data_labels,
-				label: {
-					fontSize: 11,
-					show: show_data_labels,
-					position: idx === number_columns.length - 1 ? 'top' : 'inside',
-					formatter: (params: any) => {
-						return getShortNumber(params.value?.[1], 1)
-					},
-				},
-				labelLayout: { hideOverlap: true },
-				itemStyle: { color: color },
-				areaStyle: show_area ? getAreaStyle(color) : undefined,
-			}
-		}),
-		tooltip: getTooltip({
-			xAxisIsDate,
-			granularity,
-		}),
-		legend: getLegend(show_legend),
-	}
+	const comparison = getComparison(config, number_columns, sortedRows, comparisonResult)
+	const markers = getReferenceMarkers(config, sortedRows, number_columns)
+	extendAxisRange(leftYAxis, markers.range.Left)
+	extendAxisRange(rightYAxis, markers.range.Right)
+	const trend = getTrendAndForecast(config, number_columns, sortedRows)
+	const show_overlays_legend = comparison.series.length > 0 || trend.series.length > 0
+
+	return hideFromLegend(
+		{
+			animation: true,
+			animationDuration: 700,
+			grid: getGrid({ show_legend: show_legend || show_overlays_legend }),
+			color: colors,
+			xAxis,
+			yAxis,
+			series: number_columns
+				.map((c, idx) => {
+					const serie = getSerie(config, c.name) as SeriesLine
+
+					const is_right_axis = serie.align === 'Right'
+					const type = serie.type?.toLowerCase() || 'line'
+					const smooth = serie.smooth ?? config.y_axis.smooth
+					const show_data_points = serie.show_data_points ?? config.y_axis.show_data_points
+					const show_area = serie.show_area ?? config.y_axis.show_area
+					const show_data_labels = serie.show_data_labels ?? config.y_axis.show_data_labels
+					const color = serie.color?.[0] || colors[idx]
+					const name = config.split_by?.column_name ? c.name : serie.measure.measure_name || c.name
+
+					return {
+						type,
+						name,
+						data: getSeriesData(c.name),
+						color: color,
+						yAxisIndex: is_right_axis ? 1 : 0,
+						smooth: smooth ? 0.4 : false,
+						smoothMonotone: 'x',
+						showSymbol: show_data_points || show_data_labels || comparison.show_percent_change,
+						label: {
+							fontSize: 11,
+							show: show_data_labels || comparison.show_percent_change,
+							position: idx === number_columns.length - 1 ? 'top' : 'inside',
+							formatter: (params: any) => {
+								if (comparison.show_percent_change) {
+									return comparison.getPercentChangeLabel(c.name, params.dataIndex)
+								}
+								return formatValue(params.value?.[1], getColumnFormat(formats, c.name), true)
+							},
+						},
+						labelLayout: { hideOverlap: true },
+						itemStyle: { color: color },
+						areaStyle: show_area ? getAreaStyle(color) : undefined,
+						...markers.getSeriesMarks(idx),
+					}
+				})
+				.concat(comparison.series.map((s) => ({ ...s, type: 'line' })))
+				.concat(trend.series),
+			tooltip: getTooltip({
+				xAxisIsDate,
+				granularity,
+				comparisons: comparison.seriesNames,
+				formats,
+			}),
+			legend: getLegend(show_legend || show_overlays_legend),
+		},
+		trend.hiddenSeries
+	)
 }
 
 function getAreaStyle(color: string) {
@@ -132,7 +179,12 @@ function getAreaStyle(color: string) {
 	}
 }
 
-export function getBarChartOptions(config: BarChartConfig, result: QueryResult, swapAxes = false) {
+export function getBarChartOptions(
+	config: BarChartConfig,
+	result: QueryResult,
+	swapAxes = false,
+	comparisonResult?: QueryResult
+) {
 	const _columns = result.columns
 	const _rows = result.rows
 
@@ -143,8 +195,18 @@ export function getBarChartOptions(config: BarChartConfig, result: QueryResult,
 	const xAxisIsDate = FIELDTYPES.DATE.includes(config.x_axis.data_type)
 	const granularity = xAxisIsDate ? getGranularity(config.x_axis.dimension_name, config) : null
 
-	const leftYAxis = getYAxis({ normalized: config.y_axis.normalize })
-	const rightYAxis = getYAxis({ normalized: config.y_axis.normalize })
+	// normalized values are percentages of the total, so the formats of the measures don't apply
+	const formats = config.y_axis.normalize
+		? {}
+		: getMeasureFormats(config.y_axis.series.map((s) => s.measure))
+	const leftYAxis = getYAxis({
+		normalized: config.y_axis.normalize,
+		format: config.y_axis.normalize ? undefined : getAxisFormat(config, 'Left'),
+	})
+	const rightYAxis = getYAxis({
+		normalized: config.y_axis.normalize,
+		format: config.y_axis.normalize ? undefined : getAxisFormat(config, 'Right'),
+	})
 	const hasRightAxis = config.y_axis.series.some((s) => s.align === 'Right')
 	const yAxis = !hasRightAxis ? [leftYAxis] : [leftYAxis, rightYAxis]
 
@@ -180,54 +242,730 @@ export function getBarChartOptions(config: BarChartConfig, result: QueryResult,
 			.map((d) => (swapAxes ? [d[1], d[0]] : d))
 
 	const colors = getColors()
+	// comparing normalized values is not meaningful
+	const comparison = getComparison(
+		config,
+		number_columns,
+		sortedRows,
+		config.y_axis.normalize ? undefined : comparisonResult
+	)
+	const comparisonSeries = comparison.series.map((s) => {
+		const data = s.data.map((d: any[]) => (swapAxes ? [d[1], d[0]] : d))
+		return { ...s, type: 'bar', barMaxWidth: 60, data: swapAxes ? data.reverse() : data }
+	})
+	const markers = getReferenceMarkers(config, sortedRows, number_columns, swapAxes)
+	extendAxisRange(leftYAxis, markers.range.Left)
+	extendAxisRange(rightYAxis, markers.range.Right)
+	// trendlines and forecasts are only drawn on a horizontal time axis
+	const trend = swapAxes
+		? { series: [], hiddenSeries: [] }
+		: getTrendAndForecast(config, number_columns, sortedRows)
+	const show_overlays_legend = comparison.series.length > 0 || trend.series.length > 0
+
+	return hideFromLegend(
+		{
+			animation: true,
+			animationDuration: 700,
+			color: colors,
+			grid: getGrid({ show_legend: show_legend || show_overlays_legend }),
+			xAxis: swapAxes ? yAxis : xAxis,
+			yAxis: swapAxes ? xAxis : yAxis,
+			series: number_columns
+				.map((c, idx) => {
+					const serie = getSerie(config, c.name)
+					const is_right_axis = serie.align === 'Right'
+
+					const color = serie.color?.[0] || colors[idx]
+					const type = serie.type?.toLowerCase() || 'bar'
+					const stack = type === 'bar' && config.y_axis.stack ? 'stack' : undefined
+					const show_data_labels = serie.show_data_labels ?? config.y_axis.show_data_labels
+
+					const data = getSeriesData(c.name)
+					const name = config.split_by?.column_name ? c.name : serie.measure.measure_name || c.name
+
+					return {
+						type,
+						stack,
+						name,
+						data: swapAxes ? data.reverse() : data,
+						color: color,
+						label: {
+							show: show_data_labels || comparison.show_percent_change,
+							position: idx === number_columns.length - 1 ? (swapAxes ? 'right' : 'top') : 'inside',
+							formatter: (params: any) => {
+								if (comparison.show_percent_change) {
+									const dataIndex = swapAxes ? data.length - 1 - params.dataIndex : params.dataIndex
+									return comparison.getPercentChangeLabel(c.name, dataIndex)
+								}
+								const _val = swapAxes ? params.value?.[0] : params.value?.[1]
+								return formatValue(_val, getColumnFormat(formats, c.name), true)
+							},
+							fontSize: 11,
+						},
+						labelLayout: { hideOverlap: true },
+						barMaxWidth: 60,
+						yAxisIndex: is_right_axis ? 1 : 0,
+						itemStyle: { color: color },
+						...markers.getSeriesMarks(idx),
+					}
+				})
+				.concat(comparisonSeries)
+				.concat(trend.series),
+			tooltip: getTooltip({
+				xAxisIsDate,
+				granularity,
+				xySwapped: swapAxes,
+				comparisons: comparison.seriesNames,
+				formats,
+			}),
+			legend: getLegend(show_legend || show_overlays_legend),
+		},
+		trend.hiddenSeries
+	)
+}
+
+// series with the values of the comparison period for each of the number columns
+function getComparison(
+	config: AxisChartConfig,
+	number_columns: QueryResultColumn[],
+	rows: QueryResultRow[],
+	comparisonResult?: QueryResult
+) {
+	const comparison = {
+		series: [] as any[],
+		// comparison series name -> series name
+		seriesNames: {} as Record<string, string>,
+		show_percent_change: false,
+		getPercentChangeLabel: (column_name: string, dataIndex: number) => '',
+	}
+	if (!isComparisonEnabled(config) || !comparisonResult?.rows?.length) {
+		return comparison
+	}
+
+	const colors = getColors()
+	const label = getComparisonLabel(config.comparison!)
+	const x_values = rows.map((r) => r[config.x_axis.dimension_name])
+	const valuesByColumn = {} as Record<string, any[]>
+
+	number_columns.forEach((c, idx) => {
+		const serie = getSerie(config, c.name)
+		const name = serie.measure.measure_name || c.name
+		const color = serie.color?.[0] || colors[idx]
+		const values = getComparisonValues(config, comparisonResult, x_values, c.name)
+		valuesByColumn[c.name] = values
+
+		comparison.seriesNames[`${name} (${label})`] = name
+		comparison.series.push({
+			name: `${name} (${label})`,
+			data: x_values.map((x_value, i) => [x_value, values[i]]),
+			color: color,
+			yAxisIndex: serie.align === 'Right' ? 1 : 0,
+			showSymbol: false,
+			itemStyle: { color: color, opacity: 0.4 },
+			lineStyle: { type: 'dashed', opacity: 0.6 },
+		})
+	})
+
+	comparison.show_percent_change = Boolean(config.comparison?.show_percent_change)
+	comparison.getPercentChangeLabel = (column_name: string, dataIndex: number) => {
+		const current = rows[dataIndex]?.[column_name]
+		const previous = valuesByColumn[column_name]?.[dataIndex]
+		return formatPercentChange(getPercentChange(current, previous))
+	}
+	return comparison
+}
+
+function formatPercentChange(percent: number | null) {
+	if (percent === null) return ''
+	return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`
+}
+
+export function getScatterChartOptions(config: ScatterChartConfig, result: QueryResult) {
+	const _rows = result.rows
+	const _formattedRows = result.formattedRows
+
+	const label = config.dimension.dimension_name
+	const x = config.x_measure.measure_name
+	const y = config.y_measure.measure_name
+	const size = config.size_measure?.measure_name
+	const color_by = config.color_dimension?.column_name
+		? config.color_dimension.dimension_name
+		: undefined
+
+	// the area of the bubble is proportional to the size value
+	const maxSize = size ? Math.max(..._rows.map((r) => Math.abs(r[size]) || 0)) : 0
+	const getSymbolSize = (value: number) => {
+		if (!size || !maxSize) return 10
+		return 6 + Math.sqrt(Math.abs(value || 0) / maxSize) * 34
+	}
+
+	const groups = color_by ? Array.from(new Set(_formattedRows.map((r) => r[color_by]))) : [y]
+	const show_legend = groups.length > 1
+
+	const getSeriesData = (group: any) =>
+		_rows
+			.map((r, idx) => [r[x], r[y], size ? r[size] : null, _formattedRows[idx][label], idx])
+			.filter((d) => !color_by || _formattedRows[d[4]][color_by] === group)
+
+	const colors = getColors()
+	const formats = getMeasureFormats([config.x_measure, config.y_measure, config.size_measure])
 
 	return {
 		animation: true,
 		animationDuration: 700,
 		color: colors,
 		grid: getGrid({ show_legend }),
-		xAxis: swapAxes ? yAxis : xAxis,
-		yAxis: swapAxes ? xAxis : yAxis,
-		series: number_columns.map((c, idx) => {
-			const serie = getSerie(config, c.name)
-			const is_right_axis = serie.align === 'Right'
+		xAxis: {
+			...getYAxis({ format: formats[x] }),
+			scale: true,
+			splitLine: { show: false },
+			axisLine: { show: true, onZero: false },
+		},
+		yAxis: { ...getYAxis({ format: formats[y] }), scale: true },
+		series: groups.map((group, idx) => ({
+			type: 'scatter',
+			name: String(group),
+			data: getSeriesData(group),
+			symbolSize: (value: any[]) => getSymbolSize(value[2]),
+			itemStyle: { color: colors[idx % colors.length], opacity: 0.8 },
+			emphasis: { focus: 'series' },
+		})),
+		tooltip: {
+			trigger: 'item',
+			confine: true,
+			appendToBody: false,
+			formatter: (params: any) => {
+				const [x_value, y_value, size_value, label_value] = params.value
+				const values = [[x, x_value], [y, y_value], ...(size ? [[size, size_value]] : [])]
+				return `
+					<div class="flex flex-col">
+						<div class="flex gap-1 items-center">${params.marker}<div>${label_value}</div></div>
+						${values
+							.map(
+								([name, value]) => `
+									<div class="flex items-center justify-between gap-5">
+										<div>${name}</div>
+										<div class="font-bold">${formatValue(value, formats[name])}</div>
+									</div>
+								`
+							)
+							.join('')}
+					</div>
+				`
+			},
+		},
+		legend: getLegend(show_legend),
+	}
+}
 
-			const color = serie.color?.[0] || colors[idx]
-			const type = serie.type?.toLowerCase() || 'bar'
-			const stack = type === 'bar' && config.y_axis.stack ? 'stack' : undefined
-			const show_data_labels = serie.show_data_labels ?? config.y_axis.show_data_labels
+export function getHeatmapChartOptions(config: HeatmapChartConfig, result: QueryResult) {
+	const _rows = result.rows
 
-			const data = getSeriesData(c.name)
-			const name = config.split_by?.column_name ? c.name : serie.measure.measure_name || c.name
+	const x = config.x_dimension.dimension_name
+	const y = config.y_dimension.dimension_name
+	// the query falls back to the count of rows if the value is not set
+	const valueColumn = config.value_column?.measure_name || count().measure_name
+
+	const getCategories = (dimension_name: string, data_type: ColumnDataType) => {
+		const values = Array.from(new Set(_rows.map((r) => r[dimension_name])))
+		if (FIELDTYPES.DATE.includes(data_type)) {
+			values.sort((a, b) => new Date(a).getTime() - new Date(b).getTime())
+		} else if (FIELDTYPES.NUMBER.includes(data_type)) {
+			values.sort((a, b) => a - b)
+		}
+		const granularity = getGranularity(dimension_name, config)
+		const labels = values.map((v) =>
+			FIELDTYPES.DATE.includes(data_type) && granularity
+				? getFormattedDate(v, granularity)
+				: String(v)
+		)
+		const indexes = new Map(values.map((v, idx) => [v, idx]))
+		return { labels, indexes }
+	}
+	const xCategories = getCategories(x, config.x_dimension.data_type)
+	const yCategories = getCategories(y, config.y_dimension.data_type)
+
+	// data points are in the same order as the rows so that the data index maps to the row
+	const data = _rows.map((r) => [
+		xCategories.indexes.get(r[x]),
+		yCategories.indexes.get(r[y]),
+		r[valueColumn],
+	])
+	const values = data.map((d) => Number(d[2]) || 0)
+	const format = config.value_column?.format
 
-			return {
-				type,
-				stack,
-				name,
-				data: swapAxes ? data.reverse() : data,
-				color: color,
+	return {
+		animation: true,
+		animationDuration: 700,
+		grid: { ...getGrid(), bottom: 56 },
+		xAxis: {
+			type: 'category',
+			data: xCategories.labels,
+			splitArea: { show: true },
+			axisTick: { show: false },
+		},
+		yAxis: {
+			type: 'category',
+			data: yCategories.labels,
+			splitArea: { show: true },
+			axisTick: { show: false },
+		},
+		visualMap: getVisualMap(values, format),
+		series: [
+			{
+				type: 'heatmap',
+				name: valueColumn,
+				data,
 				label: {
-					show: show_data_labels,
-					position: idx === number_columns.length - 1 ? (swapAxes ? 'right' : 'top') : 'inside',
-					formatter: (params: any) => {
-						const _val = swapAxes ? params.value?.[0] : params.value?.[1]
-						return getShortNumber(_val, 1)
-					},
+					show: config.show_data_labels,
 					fontSize: 11,
+					formatter: (params: any) => formatValue(params.value?.[2], format, true),
+				},
+				emphasis: {
+					itemStyle: { shadowBlur: 6, shadowColor: 'rgba(0, 0, 0, 0.2)' },
+				},
+			},
+		],
+		tooltip: {
+			trigger: 'item',
+			confine: true,
+			appendToBody: false,
+			formatter: (params: any) => {
+				const [x_index, y_index, value] = params.value
+				return `
+					<div class="flex flex-col">
+						<div>${xCategories.labels[x_index]}, ${yCategories.labels[y_index]}</div>
+						<div class="flex items-center justify-between gap-5">
+							<div>${params.seriesName}</div>
+							<div class="font-bold">${formatValue(value, format)}</div>
+						</div>
+					</div>
+				`
+			},
+		},
+	}
+}
+
+export function getMapChartOptions(config: MapChartConfig, result: QueryResult) {
+	if (config.mode === 'Point') {
+		return getPointMapOptions(config, result)
+	}
+
+	const _rows = result.rows
+	const region = config.region_column?.dimension_name
+	if (!config.map || !region) return
+
+	// the query falls back to the count of rows if the value is not set
+	const valueColumn = config.value_column?.measure_name || count().measure_name
+	const data = _rows.map((r) => ({ name: r[region], value: r[valueColumn] }))
+
+	return {
+		animation: true,
+		animationDuration: 700,
+		visualMap: getVisualMap(
+			data.map((d) => Number(d.value) || 0),
+			config.value_column?.format
+		),
+		series: [
+			{
+				type: 'map',
+				map: config.map,
+				name: valueColumn,
+				roam: true,
+				top: 10,
+				bottom: 40,
+				data,
+				itemStyle: { areaColor: '#F4F5F6', borderColor: '#C0CCDA' },
+				emphasis: { label: { show: true, fontSize: 11 } },
+			},
+		],
+		tooltip: {
+			trigger: 'item',
+			confine: true,
+			appendToBody: false,
+			formatter: (params: any) => {
+				const value = isNaN(params.value)
+					? '-'
+					: formatValue(params.value, config.value_column?.format)
+				return `
+					<div class="flex items-center justify-between gap-5">
+						<div>${params.name}</div>
+						<div class="font-bold">${value}</div>
+					</div>
+				`
+			},
+		},
+	}
+}
+
+function getPointMapOptions(config: MapChartConfig, result: QueryResult) {
+	const _rows = result.rows
+	const latitude = config.latitude_column?.dimension_name
+	const longitude = config.longitude_column?.dimension_name
+	if (!latitude || !longitude) return
+
+	const size = config.size_measure?.measure_name
+	const color = config.color_measure?.measure_name
+	const data = _rows.map((r) => [
+		r[longitude],
+		r[latitude],
+		size ? r[size] : null,
+		color ? r[color] : null,
+	])
+
+	// the area of the point is proportional to the size value
+	const maxSize = size ? Math.max(...data.map((d) => Math.abs(d[2]) || 0)) : 0
+	const getSymbolSize = (value: number) => {
+		if (!size || !maxSize) return 8
+		return 4 + Math.sqrt(Math.abs(value || 0) / maxSize) * 26
+	}
+
+	// without a map the points are plotted on a plain longitude / latitude grid
+	const useGeo = Boolean(config.map)
+	const colors = getColors()
+	const formats = getMeasureFormats([config.size_measure, config.color_measure])
+
+	return {
+		animation: true,
+		animationDuration: 700,
+		geo: useGeo
+			? {
+					map: config.map,
+					roam: true,
+					top: 10,
+					bottom: color ? 40 : 10,
+					itemStyle: { areaColor: '#F4F5F6', borderColor: '#C0CCDA' },
+					emphasis: { disabled: true },
+			  }
+			: undefined,
+		grid: useGeo ? undefined : getGrid(),
+		xAxis: useGeo ? undefined : { ...getYAxis(), scale: true, min: -180, max: 180 },
+		yAxis: useGeo ? undefined : { ...getYAxis(), scale: true, min: -90, max: 90 },
+		visualMap: color
+			? {
+					...getVisualMap(
+						data.map((d) => Number(d[3]) || 0),
+						config.color_measure?.format
+					),
+					dimension: 3,
+			  }
+			: undefined,
+		series: [
+			{
+				type: 'scatter',
+				coordinateSystem: useGeo ? 'geo' : 'cartesian2d',
+				name: size || color || 'count',
+				data,
+				symbolSize: (value: any[]) => getSymbolSize(value[2]),
+				itemStyle: { color: colors[0], opacity: 0.8 },
+			},
+		],
+		tooltip: {
+			trigger: 'item',
+			confine: true,
+			appendToBody: false,
+			formatter: (params: any) => {
+				const [lng, lat, size_value, color_value] = params.value
+				const values = [
+					...(size ? [[size, size_value]] : []),
+					...(color && color !== size ? [[color, color_value]] : []),
+				]
+				return `
+					<div class="flex flex-col">
+						<div>${lat}, ${lng}</div>
+						${values
+							.map(
+								([name, value]) => `
+									<div class="flex items-center justify-between gap-5">
+										<div>${name}</div>
+										<div class="font-bold">${formatValue(value, formats[name])}</div>
+									</div>
+								`
+							)
+							.join('')}
+					</div>
+				`
+			},
+		},
+	}
+}
+
+function getVisualMap(values: number[], format?: NumberFormat) {
+	const colors = getColors()
+	return {
+		min: values.length ? Math.min(...values) : 0,
+		max: values.length ? Math.max(...values) : 0,
+		calculable: true,
+		orient: 'horizontal',
+		left: 'center',
+		bottom: 0,
+		itemHeight: 160,
+		inRange: { color: ['#EBF5FF', colors[0]] },
+		formatter: (value: number) => formatValue(value, format, true),
+	}
+}
+
+// trendline and forecast of a measure computed from the data of a time-series chart
+function getTrendAndForecast(
+	config: AxisChartConfig,
+	number_columns: QueryResultColumn[],
+	rows: QueryResultRow[]
+) {
+	const trend = { series: [] as any[], hiddenSeries: [] as string[] }
+	const xAxisIsDate = FIELDTYPES.DATE.includes(config.x_axis.data_type)
+	if (!xAxisIsDate || config.split_by?.column_name || rows.length < 2) return trend
+
+	const colors = getColors()
+	const x_values = rows.map((r) => r[config.x_axis.dimension_name])
+	const getMeasure = (measure_name?: string) => {
+		const column = number_columns.find((c) => c.name === measure_name) || number_columns[0]
+		if (!column) return
+		const serie = getSerie(config, column.name)
+		return {
+			name: serie.measure.measure_name || column.name,
+			color: serie.color?.[0] || colors[number_columns.indexOf(column)],
+			values: rows.map((r) => Number(r[column.name]) || 0),
+		}
+	}
+
+	const trendline = config.trendline
+	const trendMeasure = trendline?.type && getMeasure(trendline.measure_name)
+	if (trendline?.type && trendMeasure) {
+		const values = getTrendline(trendMeasure.values, trendline.type, Number(trendline.window) || 3)
+		trend.series.push({
+			type: 'line',
+			name: `${trendMeasure.name} (Trend)`,
+			data: x_values.map((x, idx) => [x, values[idx]]),
+			color: trendMeasure.color,
+			showSymbol: false,
+			lineStyle: { type: 'dashed', width: 1.5 },
+			itemStyle: { color: trendMeasure.color },
+		})
+	}
+
+	const forecast = config.forecast
+	const forecastMeasure = forecast?.method && getMeasure(forecast.measure_name)
+	if (forecast?.method && forecastMeasure) {
+		const periods = Math.min(Math.max(Number(forecast.periods) || 6, 1), 365)
+		const result = getForecast(
+			forecastMeasure.values,
+			forecast.method,
+			periods,
+			Number(forecast.confidence) || 95,
+			Number(forecast.season_length) || 0
+		)
+		const future_x_values = getFutureXValues(x_values, periods, config.x_axis.granularity)
+		const name = `${forecastMeasure.name} (Forecast)`
+		const lastValue = forecastMeasure.values[forecastMeasure.values.length - 1]
+
+		trend.series.push({
+			type: 'line',
+			name,
+			// starts from the last actual value so that the lines are connected
+			data: [
+				[x_values[x_values.length - 1], lastValue],
+				...future_x_values.map((x, idx) => [x, result.values[idx]]),
+			],
+			color: forecastMeasure.color,
+			showSymbol: false,
+			lineStyle: { type: 'dashed' },
+			itemStyle: { color: forecastMeasure.color },
+		})
+
+		// the confidence band is drawn by stacking its width on top of the lower bound
+		const band = {
+			type: 'line',
+			stack: 'forecast_band',
+			stackStrategy: 'all',
+			showSymbol: false,
+			silent: true,
+			tooltip: { show: false },
+			lineStyle: { opacity: 0 },
+		}
+		trend.series.push({
+			...band,
+			name: `${name} Lower Bound`,
+			data: future_x_values.map((x, idx) => [x, result.lower[idx]]),
+		})
+		trend.series.push({
+			...band,
+			name: `${name} Range`,
+			data: future_x_values.map((x, idx) => [x, result.upper[idx] - result.lower[idx]]),
+			areaStyle: { color: forecastMeasure.color, opacity: 0.15 },
+		})
+		trend.hiddenSeries.push(`${name} Lower Bound`, `${name} Range`)
+	}
+
+	return trend
+}
+
+function getFutureXValues(x_values: string[], periods: number, granularity?: GranularityType) {
+	const last = dayjs(x_values[x_values.length - 1])
+	if (granularity) {
+		const [amount, unit] = getPeriodOffset(granularity)
+		return Array.from({ length: periods }, (_, idx) =>
+			last.add(amount * (idx + 1), unit).format('YYYY-MM-DD')
+		)
+	}
+	// without a granularity the gap between the last two dates is used
+	const step = last.diff(dayjs(x_values[x_values.length - 2]))
+	return Array.from({ length: periods }, (_, idx) =>
+		last.add(step * (idx + 1), 'ms').format('YYYY-MM-DD HH:mm:ss')
+	)
+}
+
+// series like the forecast band are drawn but not listed in the legend
+function hideFromLegend<T extends { series: any[]; legend: any }>(options: T, names: string[]) {
+	if (!names.length) return options
+	const data = options.series.map((s) => s.name).filter((name) => !names.includes(name))
+	options.legend = { ...options.legend, data }
+	return options
+}
+
+// reference lines, bands and annotations are drawn as marks on the first series of their axis,
+// a line of a measure is on the axis of the measure, the other marks are on the left axis
+function getReferenceMarkers(
+	config: AxisChartConfig,
+	rows: QueryResultRow[],
+	number_columns: QueryResultColumn[],
+	swapAxes = false
+) {
+	type Align = 'Left' | 'Right'
+	const valueAxis = swapAxes ? 'xAxis' : 'yAxis'
+	const categoryAxis = swapAxes ? 'yAxis' : 'xAxis'
+	const getAlign = (column_name: string): Align =>
+		getSerie(config, column_name).align === 'Right' ? 'Right' : 'Left'
+
+	const marks = {
+		Left: { lines: [] as any[], areas: [] as any[], values: [] as number[] },
+		Right: { lines: [] as any[], areas: [] as any[], values: [] as number[] },
+	}
+
+	const lines = config.reference_lines || []
+	lines.forEach((line) => {
+		const value = getReferenceLineValue(line, rows, number_columns)
+		if (value === null) return
+
+		const column = getReferenceLineColumn(line, number_columns)
+		const align = column ? getAlign(column.name) : 'Left'
+		const formattedValue = formatValue(value, getAxisFormat(config, align), true)
+		marks[align].values.push(value)
+		marks[align].lines.push({
+			name: line.label,
+			[valueAxis]: value,
+			lineStyle: { color: line.color || '#525252', type: line.line_style || 'dashed' },
+			label: {
+				position: 'insideEndTop',
+				fontSize: 11,
+				formatter: line.label ? `${line.label}: ${formattedValue}` : formattedValue,
+			},
+		})
+	})
+
+	const annotations = config.annotations || []
+	annotations
+		.filter((annotation) => annotation.x_value)
+		.forEach((annotation) => {
+			marks.Left.lines.push({
+				name: annotation.label,
+				[categoryAxis]: annotation.x_value,
+				lineStyle: { color: annotation.color || '#525252', type: 'solid' },
+				label: { position: 'insideEndTop', fontSize: 11, formatter: annotation.label || '' },
+			})
+		})
+
+	const bands = config.reference_bands || []
+	bands
+		.filter((band) => isNumeric(band.from) && isNumeric(band.to))
+		.forEach((band) => {
+			marks.Left.values.push(Number(band.from), Number(band.to))
+			marks.Left.areas.push([
+				{
+					name: band.label,
+					[valueAxis]: Number(band.from),
+					itemStyle: { color: band.color || '#318AD8', opacity: 0.12 },
+					label: { position: 'insideTopLeft', fontSize: 11, color: '#525252' },
 				},
-				labelLayout: { hideOverlap: true },
-				barMaxWidth: 60,
-				yAxisIndex: is_right_axis ? 1 : 0,
-				itemStyle: { color: color },
+				{ [valueAxis]: Number(band.to) },
+			])
+		})
+
+	// the marks of an axis without series are drawn on the first series
+	const firstSeriesIndex = (align: Align) =>
+		Math.max(
+			number_columns.findIndex((c) => getAlign(c.name) === align),
+			0
+		)
+	const getRange = (values: number[]) =>
+		values.length ? [Math.min(...values), Math.max(...values)] : null
+
+	return {
+		getSeriesMarks(index: number) {
+			const aligns = (['Left', 'Right'] as Align[]).filter(
+				(align) => firstSeriesIndex(align) === index
+			)
+			const markLines = aligns.flatMap((align) => marks[align].lines)
+			const markAreas = aligns.flatMap((align) => marks[align].areas)
+			return {
+				markLine: markLines.length ? { silent: true, symbol: 'none', data: markLines } : undefined,
+				markArea: markAreas.length ? { silent: true, data: markAreas } : undefined,
 			}
-		}),
-		tooltip: getTooltip({
-			xAxisIsDate,
-			granularity,
-			xySwapped: swapAxes,
-		}),
-		legend: getLegend(show_legend),
+		},
+		range: {
+			Left: getRange(marks.Left.values),
+			Right: getRange(marks.Right.values),
+		},
+	}
+}
+
+function getReferenceLineColumn(line: ReferenceLine, number_columns: QueryResultColumn[]) {
+	if (line.type === 'constant') return
+	return number_columns.find((c) => c.name === line.measure_name) || number_columns[0]
+}
+
+function getReferenceLineValue(
+	line: ReferenceLine,
+	rows: QueryResultRow[],
+	number_columns: QueryResultColumn[]
+) {
+	if (line.type === 'constant') {
+		return isNumeric(line.value) ? Number(line.value) : null
+	}
+
+	const column = getReferenceLineColumn(line, number_columns)
+	if (!column) return null
+	const values = rows.map((r) => Number(r[column.name])).filter((v) => !isNaN(v))
+	if (!values.length) return null
+
+	if (line.type === 'average') {
+		return values.reduce((a, b) => a + b, 0) / values.length
 	}
+	const percentile = line.type === 'median' ? 50 : Number(line.percentile) || 0
+	return getPercentile(values, Math.min(Math.max(percentile, 0), 100))
+}
+
+function getPercentile(values: number[], percentile: number) {
+	const sorted = [...values].sort((a, b) => a - b)
+	const index = (percentile / 100) * (sorted.length - 1)
+	const lower = Math.floor(index)
+	const upper = Math.ceil(index)
+	return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+function isNumeric(value: any) {
+	return value !== '' && value !== null && value !== undefined && !isNaN(Number(value))
+}
+
+// marks outside the range of the data are not visible unless the axis is extended
+function extendAxisRange(axis: ReturnType<typeof getYAxis>, range: number[] | null) {
+	if (!range) return
+	const [min, max] = range
+	const axisMin = axis.min
+	const axisMax = axis.max
+	// @ts-ignore
+	axis.min = (value: { min: number }) => axisMin ?? Math.min(value.min, min, 0)
+	// @ts-ignore
+	axis.max = (value: { max: number }) => axisMax ?? Math.max(value.max, max)
 }
 
 function getSerie(config: AxisChartConfig, number_column: string): Series {
@@ -269,10 +1007,18 @@ function getXAxis(options: XAxisCustomizeOptions = {}) {
 	}
 }
 
+// the axis is formatted as per the first series aligned to it
+function getAxisFormat(config: AxisChartConfig, align: 'Left' | 'Right') {
+	const serie = config.y_axis.series.find((s) => (s.align || 'Left') === align && s.measure.format)
+	return serie?.measure.format
+}
+
 type YAxisCustomizeOptions = {
 	is_secondary?: boolean
 	normalized?: boolean
+	format?: NumberFormat
 }
+
 function getYAxis(options: YAxisCustomizeOptions = {}) {
 	return {
 		show: true,
@@ -288,7 +1034,7 @@ function getYAxis(options: YAxisCustomizeOptions = {}) {
 			show: true,
 			hideOverlap: true,
 			margin: 4,
-			formatter: (value: number) => getShortNumber(value, 1),
+			formatter: (value: number) => formatValue(value, options.format, true),
 		},
 		min: options.normalized ? 0 : undefined,
 		max: options.normalized ? 100 : undefined,
@@ -400,7 +1146,7 @@ export function getDonutChartOptions(config: DountChartConfig, result: QueryResu
 			appendToBody: false,
 			valueFormatter: (value: number) => {
 				const percent = (value / total) * 100
-				return `${formatNumber(value, 2)} (${percent.toFixed(0)}%)`
+				return `${formatValue(value, config.value_column?.format)} (${percent.toFixed(0)}%)`
 			},
 		},
 	}
@@ -504,6 +1250,198 @@ export function getFunnelChartOptions(config: DountChartConfig, result: QueryRes
 	}
 }
 
+// composes the options of the small multiples into a grid of charts sharing their scales
+export function getFacetedChartOptions(
+	chart_type: ChartType,
+	facets: FacetResult[],
+	columns: number | undefined,
+	getOptions: (result: QueryResult) => any
+) {
+	const charts = facets
+		.map((facet) => ({ facet, options: getOptions(facet.result) }))
+		.filter((c) => c.options)
+	if (!charts.length) return
+
+	const first = charts[0].options
+	const legendNames = Array.from(
+		new Set(
+			charts.flatMap(({ options }) => {
+				if (chart_type === 'Donut') return options.dataset.source.map((d: any[]) => d[0])
+				return options.legend?.data || getSeriesNames(options)
+			})
+		)
+	)
+	const layout = getFacetLayout(charts.length, columns, Boolean(first.legend?.show))
+	const title = charts.map((c, idx) => ({
+		text: ellipsis(c.facet.label, 30),
+		left: `${layout[idx].left + layout[idx].width / 2}%`,
+		top: `${layout[idx].top}%`,
+		textAlign: 'center',
+		textStyle: { fontSize: 12, fontWeight: 500, color: '#383838' },
+	}))
+
+	if (chart_type === 'Donut') {
+		const colors = getColors()
+		const getColor = (name: string) => colors[legendNames.indexOf(name) % colors.length]
+		return {
+			animation: true,
+			animationDuration: 700,
+			title,
+			series: charts.map(({ options }, idx) => {
+				const cell = layout[idx]
+				const radius = Math.min(cell.width, cell.height - FACET_TITLE_HEIGHT) * 0.8
+				return {
+					...options.series[0],
+					center: [
+						`${cell.left + cell.width / 2}%`,
+						`${cell.top + FACET_TITLE_HEIGHT + (cell.height - FACET_TITLE_HEIGHT) / 2}%`,
+					],
+					radius: [`${radius * 0.6}%`, `${radius}%`],
+					data: options.dataset.source.map(([name, value]: [string, number]) => ({
+						name,
+						value,
+						itemStyle: { color: getColor(name) },
+					})),
+					label: { show: false },
+					labelLine: { show: false },
+					tooltip: options.tooltip,
+				}
+			}),
+			tooltip: { trigger: 'item', confine: true, appendToBody: false },
+			legend: { ...getLegend(), data: legendNames },
+		}
+	}
+
+	// the first value axis of all the charts shares the same range
+	const swapAxes = toArray(first.xAxis)[0].type === 'value'
+	const range = getFacetValueRange(
+		charts.map((c) => c.options.series),
+		swapAxes
+	)
+	const categories = Array.from(
+		new Set(
+			charts.flatMap((c) =>
+				c.options.series
+					.filter((s: any) => Array.isArray(s.data))
+					.flatMap((s: any) => s.data.map((d: any[]) => (swapAxes ? d[1] : d[0])))
+			)
+		)
+	)
+
+	const shareScale = (axis: any, idx: number) => {
+		if (axis.type === 'category') return { ...axis, data: categories }
+		if (axis.type === 'time') {
+			const times = categories.map((c) => new Date(c).getTime()).filter((t) => !isNaN(t))
+			return { ...axis, min: Math.min(...times), max: Math.max(...times) }
+		}
+		if (idx > 0 || typeof axis.max === 'number' || !range) return axis
+		const { min: axisMin, max: axisMax } = axis
+		const resolve = (value: any, extent: { min: number; max: number }, key: 'min' | 'max') =>
+			typeof value === 'function' ? value(extent) : value ?? extent[key]
+		return {
+			...axis,
+			min: (extent: any) => -getNiceMax(-Math.min(resolve(axisMin, extent, 'min'), range[0], 0)),
+			max: (extent: any) => getNiceMax(Math.max(resolve(axisMax, extent, 'max'), range[1])),
+		}
+	}
+
+	const grid = [] as any[]
+	const xAxis = [] as any[]
+	const yAxis = [] as any[]
+	const series = [] as any[]
+	charts.forEach(({ options }, idx) => {
+		const cell = layout[idx]
+		grid.push({
+			left: `${cell.left}%`,
+			top: `${cell.top + FACET_TITLE_HEIGHT}%`,
+			width: `${cell.width}%`,
+			height: `${cell.height - FACET_TITLE_HEIGHT}%`,
+			containLabel: true,
+		})
+		const xOffset = xAxis.length
+		const yOffset = yAxis.length
+		toArray(options.xAxis).forEach((axis, i) =>
+			xAxis.push({ ...shareScale(axis, i), gridIndex: idx })
+		)
+		toArray(options.yAxis).forEach((axis, i) =>
+			yAxis.push({ ...shareScale(axis, i), gridIndex: idx })
+		)
+		options.series.forEach((s: any) => {
+			series.push({
+				...s,
+				xAxisIndex: xOffset + (s.xAxisIndex || 0),
+				yAxisIndex: yOffset + (s.yAxisIndex || 0),
+			})
+		})
+	})
+
+	return {
+		animation: true,
+		animationDuration: 700,
+		color: first.color,
+		title,
+		grid,
+		xAxis,
+		yAxis,
+		series,
+		tooltip: first.tooltip,
+		legend: { ...first.legend, data: legendNames },
+	}
+}
+
+const FACET_TITLE_HEIGHT = 6
+
+function getFacetLayout(count: number, columns: number | undefined, show_legend: boolean) {
+	const cols = Math.min(Math.max(Number(columns) || Math.min(count, 3), 1), count)
+	const rows = Math.ceil(count / cols)
+	// space is left at the bottom for the legend
+	const height = (show_legend ? 90 : 98) / rows
+	const width = 98 / cols
+	return Array.from({ length: count }, (_, idx) => ({
+		left: 1 + (idx % cols) * width,
+		top: 1 + Math.floor(idx / cols) * height,
+		width,
+		height,
+	}))
+}
+
+// min & max of the values drawn on the first value axis, stacked values are added up
+function getFacetValueRange(seriesPerChart: any[][], swapAxes: boolean) {
+	let min = Infinity
+	let max = -Infinity
+	seriesPerChart.forEach((series) => {
+		const stacks = {} as Record<string, number>
+		series.forEach((s) => {
+			const axisIndex = swapAxes ? s.xAxisIndex : s.yAxisIndex
+			if (axisIndex || !Array.isArray(s.data)) return
+			s.data.forEach((d: any[]) => {
+				const raw = swapAxes ? d[0] : d[1]
+				const value = Number(raw)
+				if (raw === null || raw === undefined || isNaN(value)) return
+				const key = `${s.stack}:${swapAxes ? d[1] : d[0]}`
+				const total = s.stack ? (stacks[key] = (stacks[key] || 0) + value) : value
+				min = Math.min(min, total)
+				max = Math.max(max, total)
+			})
+		})
+	})
+	return min <= max ? [min, max] : null
+}
+
+function getNiceMax(value: number) {
+	if (value <= 0) return value
+	const magnitude = 10 ** Math.floor(Math.log10(value))
+	return (Math.ceil((value / magnitude) * 2) / 2) * magnitude
+}
+
+function getSeriesNames(options: any): string[] {
+	return (options.series || []).map((s: any) => s.name).filter(Boolean)
+}
+
+function toArray(value: any): any[] {
+	return Array.isArray(value) ? value : [value]
+}
+
 function getGrid(options: any = {}) {
 	return {
 		top: 18,
@@ -523,7 +1461,8 @@ function getTooltip(options: any = {}) {
 			if (!Array.isArray(params)) {
 				const p = params as any
 				const value = options.xySwapped ? p.value[0] : p.value[1]
-				const formatted = isNaN(value) ? value : formatNumber(value)
+				const format = getColumnFormat(options.formats || {}, p.seriesName)
+				const formatted = isNaN(value) ? value : formatValue(value, format)
 				return `
 					<div class="flex items-center justify-between gap-5">
 						<div>${p.name}</div>
@@ -532,14 +1471,26 @@ function getTooltip(options: any = {}) {
 				`
 			}
 			if (Array.isArray(params)) {
+				const getYValue = (p: any) => (options.xySwapped ? p.value[0] : p.value[1])
 				const t = params.map((p, idx) => {
 					const xValue = options.xySwapped ? p.value[1] : p.value[0]
-					const yValue = options.xySwapped ? p.value[0] : p.value[1]
+					const yValue = getYValue(p)
 					const formattedX =
 						options.xAxisIsDate && options.granularity
 							? getFormattedDate(xValue, options.granularity)
 							: xValue
-					const formattedY = isNaN(yValue) ? yValue : formatNumber(yValue)
+					// comparison series are formatted like the series they are compared with
+					const currentSeries = options.comparisons?.[p.seriesName]
+					const format = getColumnFormat(options.formats || {}, currentSeries || p.seriesName)
+					let formattedY = isNaN(yValue) ? yValue : formatValue(yValue, format)
+
+					// show the change from the comparison period next to its value
+					const current = params.find((_p: any) => _p.seriesName === currentSeries)
+					const change = current ? getPercentChange(getYValue(current), yValue) : null
+					if (change !== null) {
+						const color = change >= 0 ? 'text-green-600' : 'text-red-600'
+						formattedY += ` <span class="${color}">${formatPercentChange(change)}</span>`
+					}
 					return `
 							<div class="flex flex-col">
 								${idx == 0 ? `<div>${formattedX}</div>` : ''}
@@ -590,6 +1541,63 @@ export function getDrillDownQuery(
 		return
 	}
 
+	const filters = getDrillDownFilters(result, row)
+
+	const query = useQuery({ name: getUniqueId(), operations: [] })
+	query.autoExecute = false
+	query.doc.use_live_connection = use_live_connection
+
+	query.setOperations(copy(operations))
+	const summarizeIndex = query.doc.operations.findIndex((op) => op.type === 'summarize')
+	query.doc.operations.splice(summarizeIndex)
+
+	query.addFilterGroup({
+		logical_operator: 'And',
+		filters: filters,
+	})
+
+	return query
+}
+
+// filters that select the rows behind a clicked row of a chart,
+// a date selects the whole period it starts at the granularity of its dimension
+export function getCrossFilters(config: ChartConfig, result: QueryResult, row: QueryResultRow) {
+	const dimensions = Object.values(config)
+		.flat()
+		.filter((value): value is Dimension => Boolean(value?.dimension_name))
+	const currRow = result.rows[result.formattedRows.indexOf(row)]
+	if (!currRow) return []
+
+	return result.columns
+		.filter((c) => FIELDTYPES.TEXT.includes(c.type) || FIELDTYPES.DATE.includes(c.type))
+		.flatMap((c) => {
+			const dimension = dimensions.find((d) => d.dimension_name === c.name)
+			return getDimensionFilters(c.name, c.type, currRow[c.name], dimension?.granularity)
+		})
+}
+
+// a date selects the whole period it starts, eg. the quarter or the month
+export function getDimensionFilters(
+	column_name: string,
+	data_type: ColumnDataType,
+	value: any,
+	granularity: GranularityType = 'day'
+): FilterRule[] {
+	const _column = column(column_name)
+	if (!FIELDTYPES.DATE.includes(data_type)) {
+		return [{ column: _column, operator: '=', value }]
+	}
+	const [amount, unit] = getPeriodOffset(granularity)
+	const start = dayjs(value)
+	return [
+		{ column: _column, operator: '>=', value: start.format('YYYY-MM-DD') },
+		{ column: _column, operator: '<', value: start.add(amount, unit).format('YYYY-MM-DD') },
+	]
+}
+
+// filters that select the rows behind a row of the result, a date selects
+// the period that starts with its value and ends with the value of the next row
+export function getDrillDownFilters(result: QueryResult, row: QueryResultRow) {
 	const textColumns = result.columns
 		.filter((column) => FIELDTYPES.TEXT.includes(column.type))
 		.map((column) => column.name)
@@ -632,20 +1640,7 @@ export function getDrillDownQuery(
 		}
 	}
 
-	const query = useQuery({ name: getUniqueId(), operations: [] })
-	query.autoExecute = false
-	query.doc.use_live_connection = use_live_connection
-
-	query.setOperations(copy(operations))
-	const summarizeIndex = query.doc.operations.findIndex((op) => op.type === 'summarize')
-	query.doc.operations.splice(summarizeIndex)
-
-	query.addFilterGroup({
-		logical_operator: 'And',
-		filters: filters,
-	})
-
-	return query
+	return filters
 }
 
 export function handleOldYAxisConfig(old_y_axis: any): AxisChartConfig['y_axis'] {
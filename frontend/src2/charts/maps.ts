@@ -0,0 +1,35 @@
+import { registerMap } from 'echarts/core'
+import { reactive } from 'vue'
+
+// GeoJSON files in ./maps are bundled with the app and loaded on demand,
+// the name of the file is the name of the map, e.g. ./maps/world.json.
+// the regions are matched by the `name` property of the features:
+// world.json has the countries of Natural Earth 1:110m (world-atlas),
+// usa.json the states of the US Census Bureau (us-atlas) & india.json the states of India (geojson-india),
+// see ./maps/README.md for their sources and licenses
+const mapFiles = import.meta.glob('./maps/*.json')
+
+export const MAPS = Object.keys(mapFiles)
+	.map((path) => path.replace('./maps/', '').replace('.json', ''))
+	.sort()
+
+const loadedMaps = reactive(new Set<string>())
+
+export function isMapAvailable(name?: string) {
+	return Boolean(name && MAPS.includes(name))
+}
+
+export function isMapLoaded(name?: string) {
+	return Boolean(name && loadedMaps.has(name))
+}
+
+export async function loadMap(name: string) {
+	if (loadedMaps.has(name)) return true
+	const loader = mapFiles[`./maps/${name}.json`]
+	if (!loader) return false
+
+	const geoJSON = (await loader()) as any
+	registerMap(name, geoJSON.default || geoJSON)
+	loadedMaps.add(name)
+	return true
+}
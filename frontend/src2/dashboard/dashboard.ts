@@ -1,12 +1,46 @@
 import { reactive } from 'vue'
 import { getCachedChart } from '../charts/chart'
-import { getUniqueId, store } from '../helpers'
+import { areDeeplyEqual, getUniqueId, store, waitUntil } from '../helpers'
+import { confirmDialog } from '../helpers/confirm_dialog'
 import { getCachedQuery } from '../query/query'
-import { FilterArgs } from '../types/query.types'
-import { WorkbookChart, WorkbookDashboard } from '../types/workbook.types'
+import { FilterArgs, FilterRule, QueryParameterValues } from '../types/query.types'
+import {
+	WorkbookChart,
+	WorkbookDashboard,
+	WorkbookDashboardChart,
+	WorkbookDashboardFilter,
+	WorkbookDashboardHeader,
+	WorkbookDashboardImage,
+	WorkbookDashboardItem,
+	WorkbookDashboardText,
+} from '../types/workbook.types'
+import { getLinkedQueries } from '../workbook/workbook'
+import { getFilterRules, isFilterValueSet } from './filters'
+import { getTab, getTabItems } from './tabs'
 
 const dashboards = new Map<string, Dashboard>()
 
+// filters added by clicking a data point of a chart, they apply to every other chart
+export type CrossFilter = {
+	chart: string
+	label: string
+	filters: FilterRule[]
+}
+
+export type DashboardContentItem =
+	| WorkbookDashboardText
+	| WorkbookDashboardImage
+	| WorkbookDashboardHeader
+export type DashboardContentItemValues<T = DashboardContentItem> = T extends DashboardContentItem
+	? Omit<T, 'layout'>
+	: never
+
+const contentItemSizes = {
+	text: { w: 10, h: 3 },
+	image: { w: 6, h: 4 },
+	header: { w: 20, h: 1 },
+}
+
 export default function useDashboard(workbookDashboard: WorkbookDashboard) {
 	const existingDashboard = dashboards.get(workbookDashboard.name)
 	if (existingDashboard) return existingDashboard
@@ -17,11 +51,22 @@ export default function useDashboard(workbookDashboard: WorkbookDashboard) {
 }
 
 function makeDashboard(workbookDashboard: WorkbookDashboard) {
+	// charts whose last run had filters on their linked queries
+	const chartsWithLinkedFilters = new Set<string>()
+	// charts that are refreshed again once the columns of their queries are loaded
+	const chartsWaitingForColumns = new Set<string>()
+
 	const dashboard = reactive({
 		doc: workbookDashboard,
 
 		editing: false,
 		filters: {} as Record<string, FilterArgs[]>,
+		parameters: {} as QueryParameterValues,
+		crossFilters: [] as CrossFilter[],
+		// values of the filter items, by the id of their layout
+		filterValues: {} as Record<string, any>,
+		// only the items of the active tab are shown and refreshed
+		activeTab: getTab(workbookDashboard),
 
 		activeItemIdx: null as number | null,
 		setActiveItem(index: number) {
@@ -31,13 +76,60 @@ function makeDashboard(workbookDashboard: WorkbookDashboard) {
 			return dashboard.activeItemIdx == index
 		},
 
+		getTabItems() {
+			return getTabItems(dashboard.doc, dashboard.activeTab)
+		},
+
+		setActiveTab(tab_name: string) {
+			dashboard.activeTab = getTab(dashboard.doc, tab_name)
+			dashboard.activeItemIdx = null
+			dashboard.refresh()
+		},
+
+		addTab() {
+			if (!dashboard.doc.tabs?.length) {
+				// the existing items stay on the first tab
+				dashboard.doc.tabs = [{ name: getUniqueId(), title: 'Tab 1' }]
+			}
+			const tab = {
+				name: getUniqueId(),
+				title: `Tab ${dashboard.doc.tabs.length + 1}`,
+			}
+			dashboard.doc.tabs.push(tab)
+			dashboard.setActiveTab(tab.name)
+		},
+
+		renameTab(tab_name: string, title: string) {
+			const tab = dashboard.doc.tabs?.find((t) => t.name === tab_name)
+			if (tab && title.trim()) tab.title = title.trim()
+		},
+
+		removeTab(tab_name: string) {
+			const _remove = () => {
+				getTabItems(dashboard.doc, tab_name)
+					.reverse()
+					.forEach(({ index }) => dashboard.removeItem(index))
+				dashboard.doc.tabs = dashboard.doc.tabs?.filter((t) => t.name !== tab_name)
+				// a single tab is the same as no tabs
+				if (dashboard.doc.tabs?.length === 1) {
+					dashboard.doc.tabs = []
+					dashboard.doc.items.forEach((item) => delete item.tab)
+				}
+				if (dashboard.activeTab === tab_name) {
+					dashboard.setActiveTab('')
+				}
+			}
+
+			if (!getTabItems(dashboard.doc, tab_name).length) return _remove()
+			confirmDialog({
+				title: 'Delete Tab',
+				message: 'Are you sure you want to delete this tab and all of its items?',
+				onSuccess: _remove,
+			})
+		},
+
 		addChart(charts: WorkbookChart[]) {
-			const maxY = Math.max(
-				...dashboard.doc.items
-					.filter((item) => item.type === 'chart')
-					.map((chart) => chart.layout.y + chart.layout.h),
-				0
-			)
+			const maxY = getMaxY(dashboard.getTabItems().map(({ item }) => item))
 			charts.forEach((chart) => {
 				if (
 					!dashboard.doc.items.some((item) => item.type === 'chart' && item.chart === chart.name)
@@ -45,6 +137,7 @@ function makeDashboard(workbookDashboard: WorkbookDashboard) {
 					dashboard.doc.items.push({
 						type: 'chart',
 						chart: chart.name,
+						tab: dashboard.activeTab || undefined,
 						layout: {
 							i: getUniqueId(),
 							x: 0,
@@ -57,8 +150,65 @@ function makeDashboard(workbookDashboard: WorkbookDashboard) {
 			})
 		},
 
+		addFilter(filter: Omit<WorkbookDashboardFilter, 'type' | 'layout'>) {
+			dashboard.doc.items.push({
+				...filter,
+				type: 'filter',
+				tab: dashboard.activeTab || undefined,
+				layout: {
+					i: getUniqueId(),
+					x: 0,
+					y: getMaxY(dashboard.getTabItems().map(({ item }) => item)),
+					w: 5,
+					h: 2,
+				},
+			})
+		},
+
+		updateFilter(index: number, filter: Omit<WorkbookDashboardFilter, 'type' | 'layout'>) {
+			const item = dashboard.doc.items[index]
+			if (item?.type !== 'filter') return
+			// the value does not fit a different column or filter type
+			const hasTypeChanged =
+				item.filter_type !== filter.filter_type || !areDeeplyEqual(item.column, filter.column)
+			const hadValue = isFilterValueSet(dashboard.filterValues[item.layout.i])
+			if (hasTypeChanged) delete dashboard.filterValues[item.layout.i]
+
+			Object.assign(item, filter)
+			if (hadValue) dashboard.refresh()
+		},
+
+		addContentItem(values: DashboardContentItemValues) {
+			dashboard.doc.items.push({
+				...values,
+				tab: dashboard.activeTab || undefined,
+				layout: {
+					i: getUniqueId(),
+					x: 0,
+					y: getMaxY(dashboard.getTabItems().map(({ item }) => item)),
+					...contentItemSizes[values.type],
+				},
+			} as DashboardContentItem)
+		},
+
+		updateContentItem(index: number, values: DashboardContentItemValues) {
+			const item = dashboard.doc.items[index]
+			if (!item || !isContentItem(item) || item.type !== values.type) return
+			Object.assign(item, values)
+		},
+
+		setFilterValue(item: WorkbookDashboardFilter, value: any) {
+			dashboard.filterValues[item.layout.i] = value
+			dashboard.refresh()
+		},
+
 		removeItem(index: number) {
-			dashboard.doc.items.splice(index, 1)
+			const [item] = dashboard.doc.items.splice(index, 1)
+			if (item?.type === 'filter' && item.layout.i in dashboard.filterValues) {
+				const hadValue = isFilterValueSet(dashboard.filterValues[item.layout.i])
+				delete dashboard.filterValues[item.layout.i]
+				if (hadValue) dashboard.refresh()
+			}
 		},
 
 		applyFilter(query: string, args: FilterArgs) {
@@ -66,26 +216,88 @@ function makeDashboard(workbookDashboard: WorkbookDashboard) {
 			dashboard.filters[query].push(args)
 		},
 
-		refresh() {
-			dashboard.doc.items
-				.filter((item) => item.type === 'chart')
-				.forEach((item) => dashboard.refreshChart(item.chart))
+		// clicking the same data point again removes its filter
+		applyCrossFilter(chart_name: string, filters: FilterRule[], label: string) {
+			const existing = dashboard.crossFilters.find((f) => f.chart === chart_name)
+			dashboard.crossFilters = dashboard.crossFilters.filter((f) => f.chart !== chart_name)
+			if (filters.length && existing?.label !== label) {
+				dashboard.crossFilters.push({ chart: chart_name, label, filters })
+			}
+			dashboard.refresh()
 		},
 
-		refreshChart(chart_name: string) {
+		removeCrossFilter(chart_name: string) {
+			dashboard.crossFilters = dashboard.crossFilters.filter((f) => f.chart !== chart_name)
+			dashboard.refresh()
+		},
+
+		clearCrossFilters() {
+			dashboard.crossFilters = []
+			dashboard.refresh()
+		},
+
+		setParameters(parameters: QueryParameterValues) {
+			dashboard.parameters = { ...dashboard.parameters, ...parameters }
+		},
+
+		// the charts of the other tabs are refreshed when their tab is opened
+		refresh(force = false) {
+			const charts = dashboard
+				.getTabItems()
+				.map(({ item }) => item)
+				.filter(isChartItem)
+				.map((item) => item.chart)
+			charts.forEach((chart) => dashboard.refreshChart(chart, force))
+		},
+
+		refreshChart(chart_name: string, force = false) {
 			const chart = getCachedChart(chart_name)
 			if (!chart || !chart.doc.query) return
 
-			Object.keys(dashboard.filters).forEach((query) => {
+			const chartQueries = [chart.doc.query, ...getLinkedQueries(chart.doc.query)]
+			const itemFilters = getItemFilters(dashboard.doc, chart_name, chartQueries, {
+				crossFilters: dashboard.crossFilters,
+				filterValues: dashboard.filterValues,
+			})
+
+			// the columns of the queries that are not executed yet are loaded in the background,
+			// the filters that could not be applied without them are applied once they load
+			if (itemFilters.pending && !chartsWaitingForColumns.has(chart_name)) {
+				chartsWaitingForColumns.add(chart_name)
+				waitUntil(() => chartQueries.every(areColumnsKnown)).then(() => {
+					chartsWaitingForColumns.delete(chart_name)
+					dashboard.refreshChart(chart_name)
+				})
+			}
+
+			const filters = { ...dashboard.filters }
+			Object.entries(itemFilters.linked).forEach(([query, linkedFilters]) => {
+				filters[query] = [...(filters[query] || []), ...linkedFilters]
+			})
+			Object.keys(filters).forEach((query) => {
 				const _query = getCachedQuery(query)
 				if (!_query) return
 				_query.dashboardFilters = {
 					logical_operator: 'And',
-					filters: dashboard.filters[query],
+					filters: filters[query],
 				}
 			})
 
-			chart.refresh()
+			// filters on linked queries do not change the operations of the chart, so it is
+			// run again while it has them and once they are removed.
+			// parameters are passed down to the chart query and the queries it depends on
+			const hasLinkedFilters = Object.keys(itemFilters.linked).length > 0
+			const hadLinkedFilters = chartsWithLinkedFilters.has(chart_name)
+			if (hasLinkedFilters) {
+				chartsWithLinkedFilters.add(chart_name)
+			} else {
+				chartsWithLinkedFilters.delete(chart_name)
+			}
+			chart.refresh(
+				itemFilters.chart,
+				force || hasLinkedFilters || hadLinkedFilters,
+				dashboard.parameters
+			)
 		},
 
 		getShareLink() {
@@ -97,9 +309,113 @@ function makeDashboard(workbookDashboard: WorkbookDashboard) {
 	})
 
 	const key = `insights:dashboard-filters-${workbookDashboard.name}`
-	dashboard.filters = store(key, () => dashboard.filters)
+	const storedFilters = store(key, () => ({
+		filters: dashboard.filters,
+		values: dashboard.filterValues,
+	}))
+	// only the filters of the filter selector were stored before the filter items
+	const hasValues = 'filters' in storedFilters && 'values' in storedFilters
+	dashboard.filters = hasValues ? storedFilters.filters : storedFilters
+	dashboard.filterValues = hasValues ? storedFilters.values : {}
+
+	const parametersKey = `insights:dashboard-parameters-${workbookDashboard.name}`
+	dashboard.parameters = store(parametersKey, () => dashboard.parameters)
 
 	return dashboard
 }
 
 export type Dashboard = ReturnType<typeof makeDashboard>
+
+export function isChartItem(item: WorkbookDashboardItem): item is WorkbookDashboardChart {
+	return item.type === 'chart'
+}
+
+export function isFilterItem(item: WorkbookDashboardItem): item is WorkbookDashboardFilter {
+	return item.type === 'filter'
+}
+
+export function isContentItem(item: WorkbookDashboardItem): item is DashboardContentItem {
+	return item.type === 'text' || item.type === 'image' || item.type === 'header'
+}
+
+function getMaxY(items: WorkbookDashboardItem[]) {
+	return Math.max(...items.map((item) => item.layout.y + item.layout.h), 0)
+}
+
+// the filters of the filter items and the cross filters of the other charts, a filter is
+// applied on the chart query if it has the column, otherwise on the first linked query
+// that has it or that the filter item is linked to
+function getItemFilters(
+	dashboard: WorkbookDashboard,
+	chart_name: string,
+	queries: string[],
+	state: { crossFilters: CrossFilter[]; filterValues: Record<string, any> }
+) {
+	const chartFilters = [] as FilterArgs[]
+	const linkedFilters = {} as Record<string, FilterArgs[]>
+	let unapplied = false
+
+	const addFilters = (query: string, filters: FilterArgs[]) => {
+		if (query === queries[0]) {
+			chartFilters.push(...filters)
+		} else if (filters.length) {
+			linkedFilters[query] = linkedFilters[query] || []
+			linkedFilters[query].push(...filters)
+		}
+	}
+
+	state.crossFilters
+		.filter((crossFilter) => crossFilter.chart !== chart_name)
+		.flatMap((crossFilter) => crossFilter.filters)
+		.forEach((filter) => {
+			const query = queries.find((q) => hasColumn(q, filter.column.column_name))
+			if (query) {
+				addFilters(query, [filter])
+			} else {
+				unapplied = true
+			}
+		})
+
+	dashboard.items.filter(isFilterItem).forEach((item) => {
+		const value = state.filterValues[item.layout.i]
+		if (!isFilterValueSet(value)) return
+
+		const query = queries.find(
+			(q) => item.links?.[q] || (q === item.column.query ? true : hasColumn(q, item.column.name))
+		)
+		if (!query) {
+			unapplied = true
+			return
+		}
+		const column_name = item.links?.[query] || item.column.name
+		addFilters(query, getFilterRules(item, value, column_name))
+	})
+
+	return {
+		chart: chartFilters,
+		linked: linkedFilters,
+		// some filters may apply once the columns of all the queries are known
+		pending: unapplied && !queries.every(areColumnsKnown),
+	}
+}
+
+// the columns of a query are known from its results or, if it is not executed yet,
+// from the schema its operations are validated with
+function hasColumn(query_name: string, column_name: string) {
+	const query = getCachedQuery(query_name)
+	if (!query) return false
+	if (query.result.executedSQL) {
+		return query.result.columns.some((c) => c.name === column_name)
+	}
+	const schemas = query.validation.schemas || []
+	const schema = schemas[schemas.length - 1]
+	return Boolean(schema && column_name in schema.columns)
+}
+
+function areColumnsKnown(query_name: string) {
+	const query = getCachedQuery(query_name)
+	if (!query || query.result.executedSQL) return true
+	const schemas = query.validation.schemas || []
+	const schema = schemas[schemas.length - 1]
+	return Boolean(schema && Object.keys(schema.columns).length)
+}
@@ -0,0 +1,63 @@
+import { FIELDTYPES } from '../helpers/constants'
+import { column } from '../query/helpers'
+import { ColumnDataType, FilterRule } from '../types/query.types'
+import { DashboardFilterType, WorkbookDashboardFilter } from '../types/workbook.types'
+
+const FILTER_TYPES: Record<DashboardFilterType, string> = {
+	dropdown: 'Dropdown',
+	multi_select: 'Multi Select',
+	date_range: 'Date Range',
+	relative_date: 'Relative Date',
+	number_range: 'Number Range',
+}
+
+export function getFilterTypeOptions(column_type: ColumnDataType) {
+	let types: DashboardFilterType[] = ['dropdown', 'multi_select']
+	if (FIELDTYPES.DATE.includes(column_type)) {
+		types = ['date_range', 'relative_date']
+	} else if (FIELDTYPES.NUMBER.includes(column_type)) {
+		types = ['number_range', 'dropdown', 'multi_select']
+	}
+	return types.map((type) => ({ label: FILTER_TYPES[type], value: type }))
+}
+
+export function getFilterType(filter: WorkbookDashboardFilter) {
+	return filter.filter_type || getFilterTypeOptions(filter.column.type)[0].value
+}
+
+// a range is set when either of its ends is set
+export function isFilterValueSet(value: any): boolean {
+	if (Array.isArray(value)) return value.some((v) => isFilterValueSet(v))
+	return value !== undefined && value !== null && value !== ''
+}
+
+export function getFilterRules(
+	filter: WorkbookDashboardFilter,
+	value: any,
+	column_name: string
+): FilterRule[] {
+	if (!isFilterValueSet(value)) return []
+
+	const _column = column(column_name)
+	const filter_type = getFilterType(filter)
+	if (filter_type === 'dropdown') {
+		return [{ column: _column, operator: '=', value }]
+	}
+	if (filter_type === 'multi_select') {
+		return [{ column: _column, operator: 'in', value }]
+	}
+	if (filter_type === 'relative_date') {
+		return [{ column: _column, operator: 'within', value }]
+	}
+
+	const [from, to] = value as any[]
+	const isNumber = filter_type === 'number_range'
+	const rules = [] as FilterRule[]
+	if (isFilterValueSet(from)) {
+		rules.push({ column: _column, operator: '>=', value: isNumber ? Number(from) : from })
+	}
+	if (isFilterValueSet(to)) {
+		rules.push({ column: _column, operator: '<=', value: isNumber ? Number(to) : to })
+	}
+	return rules
+}
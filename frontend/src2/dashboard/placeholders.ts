@@ -0,0 +1,67 @@
+import { Chart, getCachedChart } from '../charts/chart'
+import { formatValue, getColumnFormat, getMeasureFormats, isNumber } from '../helpers'
+import { QueryResult } from '../types/query.types'
+import { WorkbookChart } from '../types/workbook.types'
+
+// eg. {{chart:Revenue.total}} or {{chart:Revenue.sum_of_amount}}
+const PLACEHOLDER = /\{\{\s*chart:([^}]+?)\s*\}\}/g
+
+// a chart of the workbook or a chart fetched by a shared dashboard
+export type PlaceholderChart = {
+	doc: WorkbookChart
+	result: QueryResult
+}
+
+export function getWorkbookCharts(chart_names: string[]): PlaceholderChart[] {
+	const charts = chart_names.map(getCachedChart).filter(Boolean) as Chart[]
+	return charts.map((chart) => ({ doc: chart.doc, result: chart.dataQuery.result }))
+}
+
+// placeholders that can not be resolved yet are left as they are
+export function resolvePlaceholders(text: string, charts: PlaceholderChart[]) {
+	if (!text) return ''
+	return text.replace(PLACEHOLDER, (placeholder, path: string) => {
+		const value = getPlaceholderValue(path, charts)
+		return value === undefined ? placeholder : escapeHTML(value)
+	})
+}
+
+// the column is after the last dot as chart titles can have dots, a number column
+// is summed over the rows of the chart and `total` is the sum of its first number column
+function getPlaceholderValue(path: string, charts: PlaceholderChart[]) {
+	const index = path.lastIndexOf('.')
+	const chart_title = (index > -1 ? path.slice(0, index) : path).trim().toLowerCase()
+	const column_name = index > -1 ? path.slice(index + 1).trim() : 'total'
+
+	const chart = charts.find(
+		(c) => c.doc.title?.trim().toLowerCase() === chart_title || c.doc.name === chart_title
+	)
+	const result = chart?.result
+	if (!chart || !result?.columns?.length) return
+
+	let column = result.columns.find((c) => c.name === column_name)
+	if (!column && column_name === 'total') {
+		column = result.columns.find((c) => isNumber(c.type))
+	}
+	if (!column) return
+
+	if (!isNumber(column.type)) {
+		return String(result.rows[0]?.[column.name] ?? '')
+	}
+
+	const total = result.rows.reduce((sum, row) => sum + (Number(row[column!.name]) || 0), 0)
+	const measures = (chart.doc.operations || []).flatMap((op) => {
+		if (op.type === 'summarize') return op.measures
+		if (op.type === 'pivot_wider') return op.values
+		return []
+	})
+	return formatValue(total, getColumnFormat(getMeasureFormats(measures), column.name))
+}
+
+function escapeHTML(text: string) {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
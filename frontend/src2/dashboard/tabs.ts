@@ -0,0 +1,23 @@
+import { WorkbookDashboard, WorkbookDashboardItem } from '../types/workbook.types'
+
+// items without a tab, or with a tab that was removed, are on the first tab
+export function getItemTab(dashboard: WorkbookDashboard, item: WorkbookDashboardItem) {
+	const tabs = dashboard.tabs || []
+	if (!tabs.length) return ''
+	return tabs.some((tab) => tab.name === item.tab) ? item.tab! : tabs[0].name
+}
+
+export function getTabItems(dashboard: WorkbookDashboard, tab_name: string) {
+	return dashboard.items
+		.map((item, index) => ({ item, index }))
+		.filter(({ item }) => getItemTab(dashboard, item) === getTab(dashboard, tab_name))
+}
+
+// the tab of a deep link can be its name or its title, eg. ?tab=Overview
+export function getTab(dashboard: WorkbookDashboard, name_or_title?: string) {
+	const tabs = dashboard.tabs || []
+	if (!tabs.length) return ''
+	const value = name_or_title?.trim().toLowerCase()
+	const tab = tabs.find((t) => t.name === name_or_title || t.title.trim().toLowerCase() === value)
+	return tab ? tab.name : tabs[0].name
+}
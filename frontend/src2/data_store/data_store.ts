@@ -2,16 +2,56 @@ import { useTimeAgo } from '@vueuse/core'
 import { call } from 'frappe-ui'
 import { reactive, ref } from 'vue'
 import { showErrorToast } from '../helpers'
+import { createToast } from '../helpers/toasts'
 import { DatabaseType } from '../data_source/data_source.types'
 
-export type DataStoreTable = {
+export type SyncMode = 'Full' | 'Incremental'
+export type IncrementalStrategy = 'Append' | 'Upsert'
+export type SyncFrequency = 'Manual' | 'Hourly' | 'Daily' | 'Weekly' | 'Monthly' | 'Cron'
+export type SyncStatus = '' | 'In Progress' | 'Completed' | 'Failed'
+export type TableSyncSettings = {
+	sync_mode: SyncMode
+	// a monotonically increasing column like `modified` or an auto increment id
+	incremental_column?: string
+	incremental_strategy?: IncrementalStrategy
+	// used to replace the updated rows when the strategy is `Upsert`
+	unique_key?: string
+	row_limit?: number
+
+	sync_frequency?: SyncFrequency
+	// HH:mm:ss, used by daily, weekly & monthly schedules
+	sync_time?: string
+	cron_format?: string
+	// no. of times a failed sync is retried every `retry_interval` minutes
+	max_retries?: number
+	retry_interval?: number
+}
+
+export type TableSyncRun = {
+	name: string
+	status: SyncStatus
+	sync_mode: SyncMode
+	started_at: string
+	ended_at?: string
+	time_taken?: number
+	rows_imported?: number
+	error?: string
+}
+
+export type DataStoreTable = TableSyncSettings & {
 	name?: string
 	data_source: string
 	table_name: string
 	database_type: DatabaseType
 	last_synced_on: string
 	last_synced_from_now: string
-	row_limit?: number
+	row_count?: number
+	last_sync_duration?: number
+	last_sync_status?: SyncStatus
+	last_sync_attempt_on?: string
+	last_sync_error?: string
+	next_sync_on?: string
+	retry_count?: number
 }
 const storedTables = ref<Record<string, DataStoreTable[]>>({})
 
@@ -44,12 +84,16 @@ async function getTables(data_source?: string, search_term?: string, limit: numb
 }
 
 const importingTable = ref(false)
-async function importTable(data_source: string, table_name: string, row_limit?: number) {
+async function importTable(
+	data_source: string,
+	table_name: string,
+	sync_settings?: TableSyncSettings
+) {
 	importingTable.value = true
 	return call('insights.api.data_store.import_table', {
 		data_source,
 		table_name,
-		row_limit,
+		sync_settings,
 	})
 		.then(() => {
 			getTables(data_source)
@@ -60,6 +104,57 @@ async function importTable(data_source: string, table_name: string, row_limit?:
 		})
 }
 
+const updatingSyncSettings = ref(false)
+async function updateSyncSettings(
+	data_source: string,
+	table_name: string,
+	sync_settings: TableSyncSettings
+) {
+	updatingSyncSettings.value = true
+	return call('insights.api.data_store.update_table_sync_settings', {
+		data_source,
+		table_name,
+		sync_settings,
+	})
+		.then(() => {
+			createToast({
+				message: `Sync settings updated for ${table_name}`,
+				variant: 'success',
+			})
+			getTables(data_source)
+		})
+		.catch(showErrorToast)
+		.finally(() => {
+			updatingSyncSettings.value = false
+		})
+}
+
+async function getSyncHistory(
+	data_source: string,
+	table_name: string,
+	limit = 20
+): Promise<TableSyncRun[]> {
+	return call('insights.api.data_store.get_table_sync_history', {
+		data_source,
+		table_name,
+		limit,
+	}).catch((e: Error) => {
+		showErrorToast(e)
+		return []
+	})
+}
+
+// the scheduled sync is overdue by more than an hour
+const STALE_AFTER = 60 * 60 * 1000
+function isStale(table: DataStoreTable) {
+	if (!table.next_sync_on) return false
+	return Date.now() - new Date(table.next_sync_on).getTime() > STALE_AFTER
+}
+
+function isFailing(table: DataStoreTable) {
+	return table.last_sync_status === 'Failed'
+}
+
 export default function useDataStore() {
 	return reactive({
 		tables: storedTables,
@@ -68,5 +163,11 @@ export default function useDataStore() {
 
 		importingTable,
 		importTable,
+
+		updatingSyncSettings,
+		updateSyncSettings,
+		getSyncHistory,
+		isStale,
+		isFailing,
 	})
 }
@@ -62,4 +62,6 @@ export const granularityOptions = [
 	{ label: 'Month', value: 'month'},
 	{ label: 'Quarter', value: 'quarter'},
 	{ label: 'Year', value: 'year'},
+	{ label: 'Fiscal Quarter', value: 'fiscal_quarter'},
+	{ label: 'Fiscal Year', value: 'fiscal_year'},
 ] as const
@@ -7,6 +7,8 @@ import {
 	ColumnDataType,
 	DropdownOption,
 	GroupedDropdownOption,
+	Measure,
+	NumberFormat,
 	QueryResultColumn,
 } from '../types/query.types'
 import { FIELDTYPES } from './constants'
@@ -148,11 +150,14 @@ export function downloadImage(element: HTMLElement, filename: string, scale = 1,
 		})
 }
 
+export function getLocale() {
+	return (session.user?.country == 'India' ? 'en-IN' : session.user?.locale) || 'en-US'
+}
+
 export function formatNumber(number: number, precision = 2) {
 	if (isNaN(number)) return number
 	precision = precision || guessPrecision(number)
-	const locale = session.user?.country == 'India' ? 'en-IN' : session.user?.locale
-	return new Intl.NumberFormat(locale || 'en-US', {
+	return new Intl.NumberFormat(getLocale(), {
 		maximumFractionDigits: precision,
 	}).format(number)
 }
@@ -166,8 +171,8 @@ export function guessPrecision(number: number) {
 }
 
 export function getShortNumber(number: number, precision = 0) {
-	const locale = session.user?.country == 'India' ? 'en-IN' : session.user?.locale
-	let formatted = new Intl.NumberFormat(locale || 'en-US', {
+	const locale = getLocale()
+	let formatted = new Intl.NumberFormat(locale, {
 		notation: 'compact',
 		maximumFractionDigits: precision,
 	}).format(number)
@@ -178,6 +183,82 @@ export function getShortNumber(number: number, precision = 0) {
 	return formatted
 }
 
+// formats the value as per the format of its measure, `short` is used where the space
+// is limited (axis & data labels) to show compact numbers unless the format says otherwise
+export function formatValue(value: any, format?: NumberFormat, short = false): string {
+	const number = Number(value)
+	if (value === null || value === undefined || value === '' || isNaN(number)) {
+		return value ?? ''
+	}
+
+	const locale = format?.locale || getLocale()
+	const compact = format?.compact ?? short
+	const decimals = toDecimals(format?.decimals) ?? (short ? 1 : guessPrecision(number))
+	const inParentheses = number < 0 && format?.negative_style === 'parentheses'
+
+	const options: Intl.NumberFormatOptions = {
+		notation: compact ? 'compact' : 'standard',
+		maximumFractionDigits: decimals,
+	}
+	if (format?.type === 'currency' && format.currency) {
+		options.style = 'currency'
+		options.currency = format.currency.toUpperCase()
+		// currencies show fixed decimals, eg. $1.50 instead of $1.5
+		if (!compact) options.minimumFractionDigits = decimals
+	}
+	if (format?.type === 'percent') {
+		options.style = 'percent'
+	}
+
+	let formatted = getNumberFormat(locale, options).format(inParentheses ? -number : number)
+	if (compact && locale == 'en-IN') {
+		formatted = formatted.replace('T', 'K')
+	}
+	formatted = `${format?.prefix || ''}${formatted}${format?.suffix || ''}`
+	return inParentheses ? `(${formatted})` : formatted
+}
+
+const numberFormats = new Map<string, Intl.NumberFormat>()
+function getNumberFormat(locale: string, options: Intl.NumberFormatOptions) {
+	const key = `${locale}:${JSON.stringify(options)}`
+	if (!numberFormats.has(key)) {
+		try {
+			numberFormats.set(key, new Intl.NumberFormat(locale, options))
+		} catch (e) {
+			// invalid locale or currency code
+			const { notation, maximumFractionDigits } = options
+			numberFormats.set(
+				key,
+				new Intl.NumberFormat(getLocale(), { notation, maximumFractionDigits })
+			)
+		}
+	}
+	return numberFormats.get(key)!
+}
+
+function toDecimals(decimals: any) {
+	if (decimals === undefined || decimals === null || decimals === '') return
+	const number = Number(decimals)
+	return isNaN(number) ? undefined : Math.min(Math.max(Math.floor(number), 0), 20)
+}
+
+// returns the formats of the measures by their names
+export function getMeasureFormats(measures: (Measure | undefined)[]) {
+	const formats: Record<string, NumberFormat> = {}
+	measures.forEach((measure) => {
+		if (measure?.measure_name && measure.format) {
+			formats[measure.measure_name] = measure.format
+		}
+	})
+	return formats
+}
+
+// pivoted & split columns are named as value1___value2___measure
+export function getColumnFormat(formats: Record<string, NumberFormat>, column_name: string) {
+	if (!column_name) return
+	return formats[column_name] || formats[column_name.split('___').pop()!]
+}
+
 export function fuzzySearch(arr: any[], { term, keys }: { term: string; keys: string[] }) {
 	// search for term in all keys of arr items and sort by relevance
 	const lowerCaseTerm = term.toLowerCase()
@@ -11,6 +11,7 @@ import {
 	GitBranch,
 	Indent,
 	Repeat,
+	Sigma,
 	ScrollText,
 	TextCursorInput,
 	XSquareIcon,
@@ -19,6 +20,7 @@ import { h } from 'vue'
 import { copy } from '../helpers'
 import { FIELDTYPES } from '../helpers/constants'
 import dayjs from '../helpers/dayjs'
+import { getLoadedSettings } from '../settings/settings'
 import {
 	Cast,
 	CastArgs,
@@ -49,6 +51,9 @@ import {
 	OrderByArgs,
 	PivotWider,
 	PivotWiderArgs,
+	QueryParameter,
+	QueryParameterValue,
+	QueryParameterValues,
 	QueryResult,
 	QueryResultColumn,
 	QueryTableArgs,
@@ -68,6 +73,9 @@ import {
 	TableArgs,
 	Union,
 	UnionArgs,
+	WindowOperation,
+	WindowOperationArgs,
+	WindowOperationType,
 } from '../types/query.types'
 
 export const table = (args: Partial<TableArgs>): Table => ({
@@ -98,14 +106,6 @@ export const expression = (expression: string): Expression => ({
 	expression,
 })
 
-// export const window_operation = (options: WindowOperationArgs): WindowOperation => ({
-// 	type: 'window_operation',
-// 	operation: options.operation,
-// 	column: options.column,
-// 	partition_by: options.partition_by,
-// 	order_by: options.order_by,
-// })
-
 export function getFormattedRows(result: QueryResult, operations: Operation[]) {
 	if (!result.rows?.length || !result.columns?.length) return []
 
@@ -148,10 +148,31 @@ export function getFormattedDate(date: string, granularity: GranularityType) {
 		quarter: '[Q]Q, YYYY',
 	}
 
+	if (granularity === 'fiscal_year' || granularity === 'fiscal_quarter') {
+		return getFiscalPeriodLabel(date, granularity)
+	}
+
 	if (!dayjsFormat[granularity]) return date
 	return dayjs(date).format(dayjsFormat[granularity])
 }
 
+export function getFiscalYearStartMonth() {
+	const fiscal_year_start = getLoadedSettings()?.fiscal_year_start
+	return fiscal_year_start ? dayjs(fiscal_year_start).month() : 3
+}
+
+// eg. "FY 2024-25" or "FQ2, FY 2024-25" when the fiscal year starts in April
+function getFiscalPeriodLabel(date: string, granularity: 'fiscal_quarter' | 'fiscal_year') {
+	const _date = dayjs(date)
+	const startMonth = getFiscalYearStartMonth()
+	const year = _date.month() >= startMonth ? _date.year() : _date.year() - 1
+	const fiscalYear = startMonth === 0 ? `FY ${year}` : `FY ${year}-${String(year + 1).slice(2)}`
+	if (granularity === 'fiscal_year') return fiscalYear
+
+	const quarter = Math.floor(((_date.month() - startMonth + 12) % 12) / 3) + 1
+	return `FQ${quarter}, ${fiscalYear}`
+}
+
 export function getMeasures(columns: QueryResultColumn[]): Measure[] {
 	if (!columns?.length) return []
 	const count_measure = count()
@@ -185,6 +206,84 @@ export function getDimensions(columns: QueryResultColumn[]): Dimension[] {
 		})
 }
 
+export const window_operation_labels: Record<WindowOperationType, string> = {
+	sum: 'Running Total',
+	lag_difference: 'Difference from Previous',
+	row_number: 'Row Number',
+	rank: 'Rank',
+	dense_rank: 'Dense Rank',
+	moving_average: 'Moving Average',
+	percent_of_total: 'Percent of Total',
+}
+
+export const PARAMETER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+export function getReferencedParameters(operations: Operation[]): string[] {
+	const names = new Set<string>()
+	const serialized = JSON.stringify(operations)
+	for (const match of serialized.matchAll(PARAMETER_PATTERN)) {
+		names.add(match[1])
+	}
+	return Array.from(names)
+}
+
+export function getParameterValues(
+	parameters: QueryParameter[] = [],
+	overrides: QueryParameterValues = {}
+): QueryParameterValues {
+	const values: QueryParameterValues = {}
+	parameters.forEach((parameter) => {
+		const value =
+			overrides[parameter.name] !== undefined
+				? overrides[parameter.name]
+				: parameter.default_value
+		const parsed = parseParameterValue(parameter, value)
+		if (parsed !== undefined) {
+			values[parameter.name] = parsed
+		}
+	})
+	return values
+}
+
+export function parseParameterValue(
+	parameter: QueryParameter,
+	value: QueryParameterValue
+): QueryParameterValue {
+	if (value === undefined || value === null || value === '') return undefined
+
+	const toList = (v: QueryParameterValue) => {
+		if (Array.isArray(v)) return v.map(String)
+		return String(v)
+			.split(',')
+			.map((s) => s.trim())
+			.filter(Boolean)
+	}
+
+	switch (parameter.type) {
+		case 'Number': {
+			const number = Number(value)
+			return isNaN(number) ? undefined : number
+		}
+		case 'List':
+			return toList(value)
+		case 'DateRange': {
+			const range = toList(value)
+			return range.length === 2 ? range : undefined
+		}
+		default:
+			return Array.isArray(value) ? value.join(',') : String(value)
+	}
+}
+
+export function getParametersFromURL(urlQuery: Record<string, any>): QueryParameterValues {
+	const values: QueryParameterValues = {}
+	Object.entries(urlQuery).forEach(([name, value]) => {
+		if (value === null || value === undefined) return
+		values[name] = Array.isArray(value) ? value.filter(Boolean).map(String) : String(value)
+	})
+	return values
+}
+
 export const query_operation_types = {
 	source: {
 		label: 'Source',
@@ -321,6 +420,18 @@ export const query_operation_types = {
 			return `${measures} BY ${dimensions}`
 		},
 	},
+	window_operation: {
+		label: 'Window Operation',
+		type: 'window_operation',
+		icon: Sigma,
+		color: 'gray',
+		class: 'text-gray-600 bg-gray-100',
+		init: (args: WindowOperationArgs): WindowOperation => ({ type: 'window_operation', ...args }),
+		getDescription: (op: WindowOperation) => {
+			const label = window_operation_labels[op.op] || op.op
+			return `${label} of ${op.column.column_name}`
+		},
+	},
 	pivot_wider: {
 		label: 'Pivot',
 		type: 'pivot_wider',
@@ -400,6 +511,7 @@ export const filter = query_operation_types.filter.init
 export const filter_group = query_operation_types.filter_group.init
 export const mutate = query_operation_types.mutate.init
 export const summarize = query_operation_types.summarize.init
+export const window_operation = query_operation_types.window_operation.init
 export const pivot_wider = query_operation_types.pivot_wider.init
 export const order_by = query_operation_types.order_by.init
 export const limit = query_operation_types.limit.init
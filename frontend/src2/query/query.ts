@@ -1,7 +1,16 @@
 import { useDebouncedRefHistory, UseRefHistoryReturn } from '@vueuse/core'
 import { call } from 'frappe-ui'
 import { computed, reactive } from 'vue'
-import { copy, showErrorToast, wheneverChanges } from '../helpers'
+import useTableStore from '../data_source/tables'
+import {
+	copy,
+	getErrorMessage,
+	getLocale,
+	getMeasureFormats,
+	getUniqueId,
+	showErrorToast,
+	wheneverChanges,
+} from '../helpers'
 import { confirmDialog } from '../helpers/confirm_dialog'
 import { createToast } from '../helpers/toasts'
 import {
@@ -17,6 +26,8 @@ import {
 	Operation,
 	OrderByArgs,
 	PivotWiderArgs,
+	QueryParameter,
+	QueryParameterValues,
 	QueryResult,
 	QueryResultColumn,
 	Rename,
@@ -24,9 +35,13 @@ import {
 	SourceArgs,
 	SQLArgs,
 	SummarizeArgs,
-	UnionArgs
+	Table,
+	TableArgs,
+	UnionArgs,
+	WindowOperationArgs
 } from '../types/query.types'
 import { WorkbookQuery } from '../types/workbook.types'
+import { createsCycle, findCycle, getQueryDependencies } from '../workbook/dependencies'
 import {
 	cast,
 	code,
@@ -36,6 +51,7 @@ import {
 	getDimensions,
 	getFormattedRows,
 	getMeasures,
+	getParameterValues,
 	join,
 	limit,
 	mutate,
@@ -47,10 +63,18 @@ import {
 	source,
 	sql,
 	summarize,
-	union
+	union,
+	window_operation
 } from './helpers'
+import { getCacheKey, getCachedResult, invalidateQueryResults } from './result_cache'
+import { OperationDiagnostic, PipelineValidationResult, validateOperations } from './validation'
 
 const queries = new Map<string, Query>()
+
+function getCachedQueryDependencies(query_name: string) {
+	return getQueryDependencies(getCachedQuery(query_name)?.doc.operations)
+}
+
 export function getCachedQuery(name: string): Query | undefined {
 	return queries.get(name)
 }
@@ -74,14 +98,23 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		currentOperations: computed(() => [] as Operation[]),
 		activeEditOperation: computed(() => ({} as Operation)),
 
+		tableSchemas: {} as Record<string, QueryResultColumn[]>,
+		validation: computed(() => ({} as PipelineValidationResult)),
+		getOperationDiagnostics,
+
 		autoExecute: true,
 		executing: false,
+		executionId: '',
 		fetchingCount: false,
+		fetchingPage: false,
 		result: { ...EMPTY_RESULT },
 
 		getOperationsForExecution,
 		execute,
+		cancel,
 		fetchResultCount,
+		fetchPage,
+		hasNextPage,
 
 		setOperations,
 		setActiveOperation,
@@ -98,6 +131,7 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		removeOrderBy,
 		addLimit,
 		addPivotWider,
+		addWindowOperation,
 		selectColumns,
 		renameColumn,
 		removeColumn,
@@ -128,6 +162,13 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 
 		dashboardFilters: {} as FilterGroupArgs,
 
+		parameterValues: {} as QueryParameterValues,
+		getParameterValues: _getParameterValues,
+		setParameterValues,
+		addParameter,
+		updateParameter,
+		removeParameter,
+
 		history: {} as UseRefHistoryReturn<any, any>,
 		canUndo() {
 			return !query.activeEditIndex && !query.executing
@@ -152,8 +193,12 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 
 	// @ts-ignore
 	query.source = computed(() => {
-		const operations = query.getOperationsForExecution()
-		return getDataSource(operations)
+		try {
+			return getDataSource(query.getOperationsForExecution())
+		} catch (e) {
+			// the error is shown when the query is executed
+			return ''
+		}
 	})
 
 	function getDataSource(operations: Operation[]): string {
@@ -183,16 +228,63 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		return query.doc.operations[query.activeEditIndex]
 	})
 
+	// @ts-ignore
+	query.validation = computed(() => {
+		return validateOperations(query.doc.operations, getTableSchema)
+	})
+
+	function getTableSchema(table: Table): QueryResultColumn[] | undefined {
+		if (table.type === 'query') {
+			const queryTable = getCachedQuery(table.query_name)
+			return queryTable?.result.executedSQL ? queryTable.result.columns : undefined
+		}
+		const key = `${table.data_source}.${table.table_name}`
+		if (!query.tableSchemas[key]) fetchTableSchema(key, table)
+		return query.tableSchemas[key]
+	}
+
+	// table columns are fetched only when the operations are validated
+	const tableStore = useTableStore()
+	const fetchingTableSchemas = new Set<string>()
+	function fetchTableSchema(key: string, table: TableArgs) {
+		if (!table.data_source || !table.table_name) return
+		if (fetchingTableSchemas.has(key)) return
+		fetchingTableSchemas.add(key)
+		tableStore
+			.getTableColumns(table.data_source, table.table_name)
+			.then((columns) => (query.tableSchemas[key] = columns))
+			.catch(() => fetchingTableSchemas.delete(key))
+	}
+
+	function getOperationDiagnostics(index: number): OperationDiagnostic[] {
+		return query.validation.diagnostics.filter((d) => d.index === index)
+	}
+
 	wheneverChanges(
 		() => query.currentOperations,
 		() => query.autoExecute && execute(),
 		{ deep: true }
 	)
 
-	function getOperationsForExecution(): Operation[] {
+	// results of this query and the queries that depend on it are stale once it changes
+	wheneverChanges(
+		() => query.doc.operations,
+		() => invalidateQueryResults(query.doc.name),
+		{ deep: true }
+	)
+
+	// the parameter values of a query are passed down to the queries it reads from
+	function getOperationsForExecution(overrides: QueryParameterValues = {}): Operation[] {
 		if (!query.doc.operations.length) {
 			return []
 		}
+		const parameterValues = { ...query.parameterValues, ...overrides }
+
+		const cycle = findCycle(query.doc.name, getCachedQueryDependencies)
+		if (cycle) {
+			const titles = cycle.map((name) => getCachedQuery(name)?.doc.title || name)
+			throw new Error(`Circular dependency between queries: ${titles.join(' → ')}`)
+		}
 
 		let _operations = [...query.currentOperations]
 		for (const op of _operations) {
@@ -205,7 +297,8 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 				throw new Error(message)
 			}
 
-			op.table.operations = queryTable.getOperationsForExecution()
+			op.table.operations = queryTable.getOperationsForExecution(parameterValues)
+			op.table.parameters = queryTable.getParameterValues(parameterValues)
 		}
 
 		if (query.dashboardFilters.filters?.length) {
@@ -216,26 +309,64 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		return _operations
 	}
 
-	async function execute() {
+	type PagedExecution = {
+		operations: Operation[]
+		parameters: QueryParameterValues
+		limit?: number
+	}
+	// the operations of the last run, the other pages and the count are fetched with them
+	let lastExecution: PagedExecution | undefined
+
+	async function execute(force = false) {
 		if (!query.doc.operations.length) {
 			query.result = { ...EMPTY_RESULT }
 			return
 		}
 
+		// a cycle or a missing query fails the run before it starts
+		let execution: PagedExecution
+		try {
+			execution = getPagedExecution(query.getOperationsForExecution())
+		} catch (e) {
+			query.result = { ...EMPTY_RESULT }
+			showErrorToast(e as Error, false)
+			return
+		}
+
+		// responses of the earlier runs are dropped once a new run starts
+		const executionId = getUniqueId()
+		const isCurrentExecution = () => query.executionId === executionId
+		query.executionId = executionId
 		query.executing = true
-		const operations = query.getOperationsForExecution()
-		const limit = operations.find((op) => op.type === 'limit')?.limit
-		return call('insights.api.workbooks.fetch_query_results', {
-			use_live_connection: query.doc.use_live_connection,
-			operations,
-			limit,
-		})
-			.then((response: any) => {
-				if (!response) return
+
+		const timeout = query.doc.timeout
+		const timer = timeout
+			? setTimeout(() => {
+					if (!isCurrentExecution()) return
+					cancel(`Query timed out after ${timeout} seconds`)
+			  }, timeout * 1000)
+			: undefined
+
+		const { operations, parameters, limit } = execution
+		return fetchResults(
+			{
+				use_live_connection: query.doc.use_live_connection,
+				operations,
+				parameters,
+				limit,
+			},
+			force,
+			executionId
+		)
+			.then(({ value: response, cached }) => {
+				if (!response || !isCurrentExecution()) return
+				lastExecution = execution
 				query.result.executedSQL = response.sql
 				query.result.columns = response.columns
 				query.result.rows = response.rows
 				query.result.totalRowCount = 0
+				query.result.page = 1
+				query.result.pageSize = limit || DEFAULT_PAGE_SIZE
 				query.result.formattedRows = getFormattedRows(query.result, query.doc.operations)
 				query.result.columnOptions = query.result.columns.map((column) => ({
 					label: column.name,
@@ -244,29 +375,61 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 					query: query.doc.name,
 					data_type: column.type,
 				}))
-				query.result.timeTaken = response.time_taken
+				query.result.timeTaken = cached ? -1 : response.time_taken
 				query.result.lastExecutedAt = new Date()
 			})
 			.catch((e: Error) => {
+				if (!isCurrentExecution()) return
 				query.result = { ...EMPTY_RESULT }
-				showErrorToast(e)
+				// point to the broken step along with the error from the server
+				// if one of the executed steps is broken
+				const lastIndex = query.currentOperations.length - 1
+				const error = query.validation.diagnostics.find(
+					(d) => d.severity === 'error' && d.index <= lastIndex
+				)
+				if (error) {
+					createToast({
+						title: `Error in step ${error.index + 1}`,
+						message: `${error.message}. ${getErrorMessage(e)}`,
+						variant: 'error',
+					})
+				} else {
+					showErrorToast(e)
+				}
 			})
 			.finally(() => {
+				clearTimeout(timer)
+				if (!isCurrentExecution()) return
 				query.executing = false
+				query.executionId = ''
 			})
 	}
 
+	function cancel(message = 'Query execution cancelled') {
+		if (!query.executionId) return
+
+		const execution_id = query.executionId
+		query.executionId = ''
+		query.executing = false
+		call('insights.api.workbooks.cancel_query_execution', { execution_id }).catch(
+			showErrorToast
+		)
+		createToast({ message, variant: 'info' })
+	}
+
 	async function fetchResultCount() {
-		if (!query.doc.operations.length) return
+		if (!query.doc.operations.length || !lastExecution) return
 
+		const { operations, parameters, limit } = lastExecution
 		query.fetchingCount = true
-		const operations = query.getOperationsForExecution()
 		return call('insights.api.workbooks.fetch_query_results_count', {
 			use_live_connection: query.doc.use_live_connection,
 			operations,
+			parameters,
 		})
 			.then((count: number) => {
-				query.result.totalRowCount = count || 0
+				if (lastExecution?.operations !== operations) return
+				query.result.totalRowCount = limit ? Math.min(count || 0, limit) : count || 0
 			})
 			.catch(showErrorToast)
 			.finally(() => {
@@ -274,6 +437,91 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 			})
 	}
 
+	type FetchResultsArgs = {
+		use_live_connection?: boolean
+		operations: Operation[]
+		parameters: QueryParameterValues
+		limit?: number
+		offset?: number
+	}
+	function fetchResults(args: FetchResultsArgs, force = false, execution_id?: string) {
+		// execution id is not a part of the cache key
+		const key = getCacheKey(args)
+		const fetch = () =>
+			call('insights.api.workbooks.fetch_query_results', { ...args, execution_id })
+		return getCachedResult<any>(key, args.operations, fetch, force)
+	}
+
+	async function fetchPage(page: number) {
+		if (!query.doc.operations.length || !lastExecution || page < 1) return
+
+		// pages are fetched with the operations of the last run,
+		// a page of an earlier run is dropped once the query runs again
+		const executionId = query.executionId
+		const { operations, parameters, limit } = lastExecution
+		const pageSize = query.result.pageSize || DEFAULT_PAGE_SIZE
+		const offset = (page - 1) * pageSize
+		const pageLimit = limit ? Math.min(pageSize, limit - offset) : pageSize
+		if (pageLimit <= 0) return
+
+		query.fetchingPage = true
+		return fetchResults({
+			use_live_connection: query.doc.use_live_connection,
+			operations,
+			parameters,
+			limit: pageLimit,
+			offset,
+		})
+			.then(({ value: response, cached }) => {
+				if (!response) return
+				if (query.executionId !== executionId || lastExecution?.operations !== operations) {
+					return
+				}
+				query.result.rows = response.rows
+				query.result.formattedRows = getFormattedRows(query.result, query.doc.operations)
+				query.result.page = page
+				query.result.timeTaken = cached ? -1 : response.time_taken
+				// count is fetched only once the user starts paging through the results
+				if (!query.result.totalRowCount && !query.fetchingCount) {
+					query.fetchResultCount()
+				}
+			})
+			.catch(showErrorToast)
+			.finally(() => {
+				query.fetchingPage = false
+			})
+	}
+
+	// the trailing limit is the most rows the query returns, so it is applied to the pages
+	// instead of the query. the rows are sorted by the sorts of the query and one more
+	// column to break the ties, so that they do not move between pages
+	function getPagedExecution(operations: Operation[]): PagedExecution {
+		const last = operations[operations.length - 1]
+		const limit = last?.type === 'limit' ? last.limit : undefined
+		const _operations = limit ? operations.slice(0, -1) : [...operations]
+
+		const sorted = _operations.flatMap((op) =>
+			op.type === 'order_by' ? [op.column.column_name] : []
+		)
+		const schema = query.validation.schemas[query.validation.schemas.length - 1]
+		const schemaColumns = Object.keys(schema?.columns || {})
+		const columns = schemaColumns.length
+			? schemaColumns
+			: query.result.columns.map((c) => c.name)
+		const tieBreaker = columns.find((name) => !sorted.includes(name))
+		if (tieBreaker) {
+			_operations.push(order_by({ column: column(tieBreaker), direction: 'asc' }))
+		}
+
+		return { operations: _operations, parameters: query.getParameterValues(), limit }
+	}
+
+	function hasNextPage() {
+		const { page, pageSize, totalRowCount, rows } = query.result
+		if (totalRowCount) return page * pageSize < totalRowCount
+		return rows.length === pageSize
+	}
+
 	function setActiveOperation(index: number) {
 		query.activeOperationIdx = index
 		query.activeEditIndex = -1
@@ -291,6 +539,7 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 	}
 
 	function setSource(args: SourceArgs) {
+		if (isCircularReference(args.table)) return
 		const editingSource = query.activeEditOperation.type === 'source'
 
 		const _setSource = () => {
@@ -324,6 +573,19 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		})
 	}
 
+	function isCircularReference(table: Table) {
+		if (table.type !== 'query' || !table.query_name) return false
+		if (!createsCycle(query.doc.name, table.query_name, getCachedQueryDependencies)) {
+			return false
+		}
+		const title = getCachedQuery(table.query_name)?.doc.title || table.query_name
+		createToast({
+			message: `Cannot use ${title} here as it depends on this query`,
+			variant: 'error',
+		})
+		return true
+	}
+
 	function addOperation(op: Operation) {
 		query.doc.operations.splice(query.activeOperationIdx + 1, 0, op)
 		query.activeOperationIdx++
@@ -334,6 +596,7 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 	}
 
 	function addJoin(args: JoinArgs) {
+		if (isCircularReference(args.table)) return
 		const editingJoin = query.activeEditOperation.type === 'join'
 
 		if (!editingJoin) {
@@ -345,6 +608,7 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 	}
 
 	function addUnion(args: UnionArgs) {
+		if (isCircularReference(args.table)) return
 		const editingUnion = query.activeEditOperation.type === 'union'
 
 		if (!editingUnion) {
@@ -426,6 +690,17 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		addOperation(pivot_wider(args))
 	}
 
+	function addWindowOperation(args: WindowOperationArgs) {
+		const editingWindowOperation = query.activeEditOperation.type === 'window_operation'
+
+		if (!editingWindowOperation) {
+			addOperation(window_operation(args))
+		} else {
+			query.doc.operations[query.activeEditIndex] = window_operation(args)
+			query.setActiveEditIndex(-1)
+		}
+	}
+
 	function selectColumns(args: SelectArgs) {
 		const editingSelect = query.activeEditOperation.type === 'select'
 
@@ -507,6 +782,7 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		const opsOrder = [
 			'join',
 			'mutate',
+			'window_operation',
 			'filter_group',
 			'filter',
 			'select',
@@ -559,7 +835,7 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 			.flat()
 
 		const mutatedColumns = newOperations
-			.filter((op) => op.type === 'mutate')
+			.filter((op) => op.type === 'mutate' || op.type === 'window_operation')
 			.map((op) => op.new_name)
 
 		const selectOp = newOperations.find((op) => op.type === 'select')
@@ -581,10 +857,20 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 	}
 
 	function downloadResults() {
+		// the values of the measures are exported as per their formats
+		const measures = query.doc.operations.flatMap((op) => {
+			if (op.type === 'summarize') return op.measures
+			if (op.type === 'pivot_wider') return op.values
+			return []
+		})
+
 		const _downloadResults = () => {
 			return call('insights.api.workbooks.download_query_results', {
 				use_live_connection: query.doc.use_live_connection,
 				operations: query.getOperationsForExecution(),
+				parameters: query.getParameterValues(),
+				formats: getMeasureFormats(measures),
+				locale: getLocale(),
 			}).then((csv_data: string) => {
 				const blob = new Blob([csv_data], { type: 'text/csv' })
 				const url = window.URL.createObjectURL(blob)
@@ -619,6 +905,7 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		return call('insights.api.workbooks.get_distinct_column_values', {
 			use_live_connection: query.doc.use_live_connection,
 			operations: operationsForExecution,
+			parameters: query.getParameterValues(),
 			column_name: column,
 			search_term,
 			limit,
@@ -640,6 +927,7 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		return call(method, {
 			use_live_connection: query.doc.use_live_connection,
 			operations: operationsForExecution,
+			parameters: query.getParameterValues(),
 		}).then((columns: QueryResultColumn[]) => {
 			return columns.map((column) => ({
 				label: column.name,
@@ -675,6 +963,39 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		delete query.doc.calculated_measures[column_name]
 	}
 
+	function _getParameterValues(overrides: QueryParameterValues = {}) {
+		return getParameterValues(query.doc.parameters, { ...query.parameterValues, ...overrides })
+	}
+
+	// values of the parameters of this query and of the queries it reads from,
+	// only the declared parameters of each query are picked while executing
+	function setParameterValues(values: QueryParameterValues) {
+		query.parameterValues = { ...values }
+	}
+
+	function addParameter(parameter: QueryParameter) {
+		if (!query.doc.parameters) query.doc.parameters = []
+		if (query.doc.parameters.some((p) => p.name === parameter.name)) {
+			createToast({
+				message: `Parameter ${parameter.name} already exists`,
+				variant: 'error',
+			})
+			return
+		}
+		query.doc.parameters.push(parameter)
+	}
+	function updateParameter(name: string, parameter: QueryParameter) {
+		if (!query.doc.parameters) return
+		const index = query.doc.parameters.findIndex((p) => p.name === name)
+		if (index === -1) return
+		query.doc.parameters[index] = parameter
+	}
+	function removeParameter(name: string) {
+		if (!query.doc.parameters) return
+		query.doc.parameters = query.doc.parameters.filter((p) => p.name !== name)
+		delete query.parameterValues[name]
+	}
+
 	function getSQLOperation() {
 		if (!query.doc.is_native_query) return ''
 		return query.doc.operations.find((op) => op.type === 'sql')
@@ -685,7 +1006,7 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		if (args.raw_sql.trim().length) {
 			query.doc.operations.push(sql(args))
 			query.activeOperationIdx = 0
-			query.execute()
+			query.execute(true)
 		} else {
 			query.activeOperationIdx = -1
 		}
@@ -700,7 +1021,7 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 		if (args.code.trim().length) {
 			query.doc.operations.push(code(args))
 			query.activeOperationIdx = 0
-			query.execute()
+			query.execute(true)
 		} else {
 			query.activeOperationIdx = -1
 		}
@@ -741,9 +1062,12 @@ export function makeQuery(workbookQuery: WorkbookQuery) {
 	return query
 }
 
+const DEFAULT_PAGE_SIZE = 100
 const EMPTY_RESULT = {
 	executedSQL: '',
 	totalRowCount: 0,
+	page: 1,
+	pageSize: DEFAULT_PAGE_SIZE,
 	rows: [],
 	formattedRows: [],
 	columns: [],
@@ -0,0 +1,166 @@
+import { Operation, QueryParameterValues } from '../types/query.types'
+
+const CACHE_TTL = 10 * 60 * 1000 // same as the server side result cache
+const MAX_CACHE_SIZE = 50 * 1024 * 1024 // approx. size of the cached results in bytes
+
+type CacheKeyArgs = {
+	operations: Operation[]
+	use_live_connection?: boolean
+	parameters?: QueryParameterValues
+	limit?: number
+	offset?: number
+}
+
+type CacheEntry = {
+	value: any
+	size: number
+	createdAt: number
+	// query names and `data_source.table_name` of the tables the result depends on
+	queries: string[]
+	tables: string[]
+}
+
+const cache = new Map<string, CacheEntry>()
+const pending = new Map<string, Promise<any>>()
+// when the tables were last invalidated, by `data_source.table_name`
+const invalidatedTables = new Map<string, number>()
+let cacheSize = 0
+
+export function getCacheKey(args: CacheKeyArgs) {
+	return hashString(stableStringify(args))
+}
+
+// returns the cached value if present, otherwise calls `fetch` and caches the result
+// concurrent calls with the same key share the same request
+export async function getCachedResult<T>(
+	key: string,
+	operations: Operation[],
+	fetch: () => Promise<T>,
+	force = false
+): Promise<{ value: T; cached: boolean }> {
+	const cached = force ? undefined : getEntry(key)
+	if (cached) return { value: cached.value, cached: true }
+
+	if (!force && pending.has(key)) {
+		return pending.get(key)!.then((value) => ({ value, cached: false }))
+	}
+
+	const startedAt = Date.now()
+	const request = fetch()
+		.then((value) => {
+			// a result that was in flight when one of its tables got synced is stale
+			if (value && !isInvalidatedSince(operations, startedAt)) {
+				setEntry(key, value, operations)
+			}
+			return value
+		})
+		.finally(() => pending.delete(key))
+
+	pending.set(key, request)
+	return request.then((value) => ({ value, cached: false }))
+}
+
+function getEntry(key: string) {
+	const entry = cache.get(key)
+	if (!entry) return
+	if (Date.now() - entry.createdAt > CACHE_TTL) {
+		deleteEntry(key)
+		return
+	}
+	// move the entry to the end to mark it as recently used
+	cache.delete(key)
+	cache.set(key, entry)
+	return entry
+}
+
+function setEntry(key: string, value: any, operations: Operation[]) {
+	const size = JSON.stringify(value).length
+	if (size > MAX_CACHE_SIZE) return
+
+	deleteEntry(key)
+	const { queries, tables } = getReferences(operations)
+	cache.set(key, { value, size, createdAt: Date.now(), queries, tables })
+	cacheSize += size
+
+	// evict the least recently used entries
+	for (const oldestKey of cache.keys()) {
+		if (cacheSize <= MAX_CACHE_SIZE) break
+		deleteEntry(oldestKey)
+	}
+}
+
+function deleteEntry(key: string) {
+	const entry = cache.get(key)
+	if (!entry) return
+	cacheSize -= entry.size
+	cache.delete(key)
+}
+
+export function invalidateQueryResults(query_name: string) {
+	cache.forEach((entry, key) => {
+		if (entry.queries.includes(query_name)) deleteEntry(key)
+	})
+}
+
+// called once a sync of the table completes, including the scheduled ones
+export function invalidateTableResults(data_source: string, table_name: string) {
+	const table = `${data_source}.${table_name}`
+	invalidatedTables.set(table, Date.now())
+	cache.forEach((entry, key) => {
+		if (entry.tables.includes(table)) deleteEntry(key)
+	})
+}
+
+function isInvalidatedSince(operations: Operation[], time: number) {
+	return getReferences(operations).tables.some(
+		(table) => (invalidatedTables.get(table) || 0) >= time
+	)
+}
+
+export function clearResultCache() {
+	cache.clear()
+	cacheSize = 0
+}
+
+function getReferences(operations: Operation[]) {
+	const queries = new Set<string>()
+	const tables = new Set<string>()
+	const visit = (ops: Operation[] = []) => {
+		ops.forEach((op) => {
+			if (op.type !== 'source' && op.type !== 'join' && op.type !== 'union') return
+			if (op.table.type === 'table') {
+				tables.add(`${op.table.data_source}.${op.table.table_name}`)
+			} else {
+				queries.add(op.table.query_name)
+				visit(op.table.operations)
+			}
+		})
+	}
+	visit(operations)
+	return { queries: Array.from(queries), tables: Array.from(tables) }
+}
+
+// JSON.stringify with sorted object keys so that the same operations always produce the same key
+function stableStringify(value: any): string {
+	if (value === undefined) return 'null'
+	if (value === null || typeof value !== 'object') return JSON.stringify(value)
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+	const keys = Object.keys(value)
+		.filter((k) => value[k] !== undefined)
+		.sort()
+	return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`
+}
+
+// 53-bit string hash (cyrb53)
+function hashString(str: string) {
+	let h1 = 0xdeadbeef
+	let h2 = 0x41c6ce57
+	for (let i = 0; i < str.length; i++) {
+		const ch = str.charCodeAt(i)
+		h1 = Math.imul(h1 ^ ch, 2654435761)
+		h2 = Math.imul(h2 ^ ch, 1597334677)
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
@@ -0,0 +1,309 @@
+import {
+	ColumnDataType,
+	Dimension,
+	FilterArgs,
+	Measure,
+	Operation,
+	QueryResultColumn,
+	Table,
+} from '../types/query.types'
+
+export type DiagnosticSeverity = 'error' | 'warning'
+export type OperationDiagnostic = {
+	index: number
+	severity: DiagnosticSeverity
+	message: string
+}
+
+// `open` is set when the schema may have columns that can't be inferred statically
+// (eg. after a pivot or a custom operation), missing columns are not reported in that case
+export type InferredSchema = {
+	columns: Record<string, ColumnDataType>
+	open: boolean
+}
+
+// returns the columns of a table (or a query table), undefined if not known yet
+export type TableSchemaResolver = (table: Table) => QueryResultColumn[] | undefined
+
+export type PipelineValidationResult = {
+	schemas: InferredSchema[]
+	diagnostics: OperationDiagnostic[]
+}
+
+export function validateOperations(
+	operations: Operation[],
+	getTableColumns: TableSchemaResolver
+): PipelineValidationResult {
+	const schemas = [] as InferredSchema[]
+	const diagnostics = [] as OperationDiagnostic[]
+
+	let schema: InferredSchema = { columns: {}, open: true }
+	operations.forEach((op, index) => {
+		const report = (severity: DiagnosticSeverity, message: string) => {
+			diagnostics.push({ index, severity, message })
+		}
+		const checkColumn = (column_name: string | undefined, context = 'Column') => {
+			if (!column_name) {
+				report('error', `${context} is not selected`)
+				return
+			}
+			if (!hasColumn(schema, column_name)) {
+				report('error', `${context} ${column_name} does not exist at this step`)
+			}
+		}
+
+		schema = applyOperation(op, schema, { getTableColumns, checkColumn, report })
+		schemas.push(schema)
+	})
+
+	return { schemas, diagnostics }
+}
+
+type ValidationContext = {
+	getTableColumns: TableSchemaResolver
+	checkColumn: (column_name: string | undefined, context?: string) => void
+	report: (severity: DiagnosticSeverity, message: string) => void
+}
+
+function applyOperation(
+	op: Operation,
+	schema: InferredSchema,
+	ctx: ValidationContext
+): InferredSchema {
+	const { checkColumn, report } = ctx
+
+	switch (op.type) {
+		case 'source':
+			return toSchema(ctx.getTableColumns(op.table))
+
+		case 'join': {
+			const rightSchema = toSchema(ctx.getTableColumns(op.table))
+			if ('left_column' in op.join_condition) {
+				checkColumn(op.join_condition.left_column.column_name, 'Join column')
+				const right_column = op.join_condition.right_column.column_name
+				if (right_column && !hasColumn(rightSchema, right_column)) {
+					report('error', `Column ${right_column} does not exist in the joined table`)
+				}
+			}
+			if (!op.select_columns.length) {
+				report('warning', 'No columns are selected from the joined table')
+			}
+
+			const columns = { ...schema.columns }
+			let open = schema.open
+			op.select_columns.forEach((c) => {
+				if (!hasColumn(rightSchema, c.column_name)) {
+					report('error', `Column ${c.column_name} does not exist in the joined table`)
+				}
+				if (c.column_name in columns) {
+					// duplicate columns are renamed by the backend while joining
+					report('warning', `Column ${c.column_name} already exists and will be renamed`)
+					open = true
+					return
+				}
+				columns[c.column_name] = rightSchema.columns[c.column_name] || 'String'
+			})
+			return { columns, open: open || rightSchema.open }
+		}
+
+		case 'union': {
+			const otherSchema = toSchema(ctx.getTableColumns(op.table))
+			if (schema.open || otherSchema.open) {
+				return { columns: { ...schema.columns }, open: true }
+			}
+			// only the common columns are kept after a union
+			const columns = pick(schema.columns, Object.keys(otherSchema.columns))
+			if (!Object.keys(columns).length) {
+				report('error', 'Both tables must have at least one common column')
+			} else if (Object.keys(columns).length < Object.keys(schema.columns).length) {
+				report('warning', 'Columns that are not present in both tables will be dropped')
+			}
+			return { columns, open: false }
+		}
+
+		case 'filter':
+			validateFilter(op, ctx)
+			return schema
+
+		case 'filter_group':
+			if (!op.filters.length) report('warning', 'Filter group has no filters')
+			op.filters.forEach((filter) => validateFilter(filter, ctx))
+			return schema
+
+		case 'select':
+			if (!op.column_names.length) report('error', 'No columns are selected')
+			op.column_names.forEach((c) => checkColumn(c))
+			return {
+				columns: Object.fromEntries(
+					op.column_names.map((c) => [c, schema.columns[c] || 'String'])
+				) as Record<string, ColumnDataType>,
+				open: false,
+			}
+
+		case 'rename': {
+			checkColumn(op.column.column_name)
+			const new_name = sanitizeName(op.new_name)
+			if (!new_name) {
+				report('error', 'New column name is not set')
+				return schema
+			}
+			if (new_name !== op.column.column_name && new_name in schema.columns) {
+				report('error', `Column ${new_name} already exists`)
+			}
+			const columns = { ...schema.columns }
+			const data_type = columns[op.column.column_name] || 'String'
+			delete columns[op.column.column_name]
+			columns[new_name] = data_type
+			return { columns, open: schema.open }
+		}
+
+		case 'remove': {
+			op.column_names.forEach((c) => checkColumn(c))
+			const columns = { ...schema.columns }
+			op.column_names.forEach((c) => delete columns[c])
+			return { columns, open: schema.open }
+		}
+
+		case 'cast':
+			checkColumn(op.column.column_name)
+			return {
+				columns: { ...schema.columns, [op.column.column_name]: op.data_type },
+				open: schema.open,
+			}
+
+		case 'mutate':
+			if (!op.new_name) report('error', 'New column name is not set')
+			if (!op.expression?.expression) report('error', 'Expression is empty')
+			if (op.new_name in schema.columns) {
+				report('warning', `Column ${op.new_name} already exists and will be replaced`)
+			}
+			return {
+				columns: { ...schema.columns, [op.new_name]: op.data_type },
+				open: schema.open,
+			}
+
+		case 'window_operation':
+			if (op.op !== 'row_number') checkColumn(op.column.column_name)
+			if (op.partition_by?.column_name) {
+				checkColumn(op.partition_by.column_name, 'Partition column')
+			}
+			if (op.order_by?.column_name) {
+				checkColumn(op.order_by.column_name, 'Order by column')
+			}
+			return {
+				columns: {
+					...schema.columns,
+					[op.new_name]: ['row_number', 'rank', 'dense_rank'].includes(op.op)
+						? 'Integer'
+						: 'Decimal',
+				},
+				open: schema.open,
+			}
+
+		case 'summarize': {
+			if (!op.dimensions.length && !op.measures.length) {
+				report('error', 'No dimensions or measures are selected')
+			}
+			op.dimensions.forEach((d) => checkColumn(d.column_name, 'Dimension'))
+			op.measures.forEach((m) => validateMeasure(m, ctx))
+			return {
+				columns: {
+					...getDimensionColumns(op.dimensions),
+					...getMeasureColumns(op.measures),
+				},
+				open: false,
+			}
+		}
+
+		case 'pivot_wider': {
+			if (!op.rows.length) report('error', 'No row dimensions are selected')
+			if (!op.columns.length) report('error', 'No column dimensions are selected')
+			if (!op.values.length) report('error', 'No values are selected')
+			op.rows.forEach((d) => checkColumn(d.column_name, 'Row dimension'))
+			op.columns.forEach((d) => checkColumn(d.column_name, 'Column dimension'))
+			op.values.forEach((m) => validateMeasure(m, ctx))
+			// the pivoted columns depend on the data
+			return { columns: getDimensionColumns(op.rows), open: true }
+		}
+
+		case 'order_by':
+			checkColumn(op.column.column_name)
+			return schema
+
+		case 'limit':
+			if (!(op.limit > 0)) report('error', 'Limit must be greater than 0')
+			return schema
+
+		case 'custom_operation':
+		case 'sql':
+		case 'code':
+			return { columns: {}, open: true }
+	}
+}
+
+function validateFilter(filter: FilterArgs, ctx: ValidationContext) {
+	if ('expression' in filter) {
+		if (!filter.expression.expression) ctx.report('error', 'Filter expression is empty')
+		return
+	}
+	ctx.checkColumn(filter.column.column_name, 'Filter column')
+	const value = filter.value
+	if (value && typeof value === 'object' && 'column_name' in value) {
+		ctx.checkColumn(value.column_name, 'Filter value column')
+	}
+}
+
+function validateMeasure(measure: Measure, ctx: ValidationContext) {
+	if ('expression' in measure) {
+		if (!measure.expression.expression) {
+			ctx.report('error', `Expression for ${measure.measure_name} is empty`)
+		}
+		return
+	}
+	if (measure.column_name === 'count' && measure.aggregation === 'count') return
+	ctx.checkColumn(measure.column_name, 'Measure column')
+}
+
+function getDimensionColumns(dimensions: Dimension[]) {
+	const columns = {} as Record<string, ColumnDataType>
+	dimensions.forEach((d) => {
+		columns[d.dimension_name || d.column_name] = d.data_type
+	})
+	return columns
+}
+
+function getMeasureColumns(measures: Measure[]) {
+	const columns = {} as Record<string, ColumnDataType>
+	measures.forEach((m) => {
+		columns[m.measure_name] = m.data_type
+	})
+	return columns
+}
+
+function toSchema(columns: QueryResultColumn[] | undefined): InferredSchema {
+	if (!columns) return { columns: {}, open: true }
+	return {
+		columns: Object.fromEntries(columns.map((c) => [c.name, c.type])),
+		open: false,
+	}
+}
+
+function pick(columns: Record<string, ColumnDataType>, names: string[]) {
+	return Object.fromEntries(
+		Object.entries(columns).filter(([name]) => names.includes(name))
+	) as Record<string, ColumnDataType>
+}
+
+function hasColumn(schema: InferredSchema, column_name: string) {
+	if (schema.open) return true
+	return column_name in schema.columns || sanitizeName(column_name) in schema.columns
+}
+
+// same as `sanitize_name` in ibis_utils.py
+function sanitizeName(name: string) {
+	if (!name) return name
+	return name
+		.trim()
+		.replace(/[ \-./()]/g, '_')
+		.toLowerCase()
+}
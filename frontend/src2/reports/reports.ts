@@ -0,0 +1,153 @@
+import { call } from 'frappe-ui'
+import { reactive, ref } from 'vue'
+import { showErrorToast } from '../helpers'
+import { createToast } from '../helpers/toasts'
+import { QueryParameterValues } from '../types/query.types'
+
+export type ReportFormat = 'PDF' | 'PNG' | 'CSV'
+export type ReportFrequency = 'Hourly' | 'Daily' | 'Weekly' | 'Monthly' | 'Cron'
+export type ReportStatus = '' | 'Sent' | 'Failed'
+export type ReportSchedule = {
+	name?: string
+	workbook: string
+	title: string
+	disabled?: boolean
+	reference_type: 'Dashboard' | 'Chart'
+	// name of the dashboard or chart in the workbook
+	reference_name: string
+	format: ReportFormat
+	// comma separated email addresses
+	recipients: string
+	// values of the query parameters the report is generated with
+	filters: QueryParameterValues
+	frequency: ReportFrequency
+	// HH:mm:ss, used by daily, weekly & monthly schedules
+	send_time?: string
+	cron_format?: string
+	// the send time and cron format are in this time zone, eg. Asia/Kolkata
+	timezone?: string
+	last_execution?: string
+	last_status?: ReportStatus
+	next_execution?: string
+}
+
+export type ReportLog = {
+	name: string
+	report: string
+	status: ReportStatus
+	format: ReportFormat
+	recipients: string
+	error?: string
+	creation: string
+}
+
+const reports = ref<Record<string, ReportSchedule[]>>({})
+
+const loading = ref(false)
+async function getReports(workbook: string) {
+	loading.value = true
+	return call('insights.api.reports.get_reports', { workbook })
+		.then((data: ReportSchedule[]) => {
+			reports.value[workbook] = data.map((report) => ({
+				...report,
+				disabled: Boolean(report.disabled),
+			}))
+			return reports.value[workbook]
+		})
+		.catch(showErrorToast)
+		.finally(() => {
+			loading.value = false
+		})
+}
+
+const saving = ref(false)
+async function saveReport(report: ReportSchedule) {
+	saving.value = true
+	return call('insights.api.reports.save_report', { report })
+		.then(() => {
+			getReports(report.workbook)
+			createToast({
+				message: 'Report schedule saved',
+				variant: 'success',
+			})
+			return true
+		})
+		.catch((e: Error) => {
+			showErrorToast(e)
+			return false
+		})
+		.finally(() => {
+			saving.value = false
+		})
+}
+
+async function deleteReport(report: ReportSchedule) {
+	return call('insights.api.reports.delete_report', { name: report.name })
+		.then(() => {
+			getReports(report.workbook)
+			createToast({
+				message: 'Report schedule deleted',
+				variant: 'success',
+			})
+		})
+		.catch(showErrorToast)
+}
+
+const sending = ref<Record<string, boolean>>({})
+async function sendReport(report: ReportSchedule) {
+	if (!report.name) return
+	sending.value[report.name] = true
+	return call('insights.api.reports.send_report', { name: report.name })
+		.then((status: ReportStatus) => {
+			getReports(report.workbook)
+			createToast({
+				message: status === 'Sent' ? 'Report sent' : 'Failed to send report',
+				variant: status === 'Sent' ? 'success' : 'error',
+			})
+		})
+		.catch(showErrorToast)
+		.finally(() => {
+			sending.value[report.name!] = false
+		})
+}
+
+async function getReportHistory(
+	workbook: string,
+	report?: string,
+	limit = 50
+): Promise<ReportLog[]> {
+	return call('insights.api.reports.get_report_history', {
+		workbook,
+		report,
+		limit,
+	}).catch((e: Error) => {
+		showErrorToast(e)
+		return []
+	})
+}
+
+export function getTimezones(): string[] {
+	// @ts-ignore
+	return Intl.supportedValuesOf?.('timeZone') || []
+}
+
+export function getDefaultTimezone() {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+export default function useReportStore() {
+	return reactive({
+		reports,
+		loading,
+		getReports,
+
+		saving,
+		saveReport,
+		deleteReport,
+
+		sending,
+		sendReport,
+
+		getReportHistory,
+	})
+}
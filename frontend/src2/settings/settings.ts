@@ -7,6 +7,12 @@ export default function useSettings() {
 	return makeSettings()
 }
 
+// the settings if they are already fetched, values are formatted without fetching them
+// as they can not be fetched on the shared pages
+export function getLoadedSettings() {
+	return settings?.doc
+}
+
 function makeSettings() {
 	const doctype = 'Insights Settings'
 	const _settings = useDocumentResource<InsightsSettings>(doctype, doctype, {
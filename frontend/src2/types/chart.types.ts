@@ -3,13 +3,91 @@ import { Dimension, Measure } from "./query.types"
 export const AXIS_CHARTS = ['Bar', 'Line', 'Row']
 export type AxisChartType = (typeof AXIS_CHARTS)[number]
 
-export const CHARTS = ['Number', ...AXIS_CHARTS, 'Donut', 'Funnel', 'Table']
+export const CHARTS = ['Number', ...AXIS_CHARTS, 'Scatter', 'Heatmap', 'Map', 'Donut', 'Funnel', 'Table']
 export type ChartType = (typeof CHARTS)[number]
 
 export type AxisChartConfig = {
 	x_axis: Dimension
 	y_axis: YAxis
 	split_by?: Dimension
+	comparison?: PeriodComparison
+	reference_lines?: ReferenceLine[]
+	reference_bands?: ReferenceBand[]
+	annotations?: ChartAnnotation[]
+	trendline?: Trendline
+	forecast?: Forecast
+	facet?: Facet
+	drill_hierarchy?: DrillHierarchy
+}
+
+// levels a chart goes through when a data point is clicked, each level replaces the
+// dimension of the chart and a level on the same date column only changes its granularity
+export type DrillHierarchy = {
+	levels?: Dimension[]
+}
+
+// small multiples, one chart per value of the dimension
+export type Facet = {
+	dimension?: Dimension
+	// number of charts per row
+	columns?: number
+	// max number of charts, the values with the largest totals are shown
+	limit?: number
+}
+
+export type TrendlineType = 'linear' | 'exponential' | 'moving_average'
+export type Trendline = {
+	type?: TrendlineType
+	// number of periods averaged by the moving average
+	window?: number
+	// measure the trendline is drawn for, defaults to the first series
+	measure_name?: string
+}
+
+export type ForecastMethod = 'linear' | 'holt_winters'
+export type Forecast = {
+	method?: ForecastMethod
+	// number of periods to forecast after the last one
+	periods?: number
+	// percentage, one of 80, 90, 95 or 99
+	confidence?: number
+	// number of periods in a season for holt-winters, eg. 12 for monthly data
+	season_length?: number
+	measure_name?: string
+}
+
+export type ReferenceLineType = 'constant' | 'average' | 'median' | 'percentile'
+export type ReferenceLine = {
+	type: ReferenceLineType
+	label?: string
+	// used for constant lines
+	value?: number
+	// used for percentile lines, between 0 and 100
+	percentile?: number
+	// measure used to compute the average, median or percentile, defaults to the first series
+	measure_name?: string
+	color?: string
+	line_style?: 'solid' | 'dashed' | 'dotted'
+}
+export type ReferenceBand = {
+	label?: string
+	from?: number
+	to?: number
+	color?: string
+}
+export type ChartAnnotation = {
+	label: string
+	// value of the x-axis to annotate, eg. a date
+	x_value: string
+	color?: string
+}
+
+export type PeriodComparisonType = 'previous_period' | 'previous_year' | 'custom'
+export type PeriodComparison = {
+	type?: PeriodComparisonType
+	// number of x-axis periods to go back to for a custom comparison
+	offset?: number
+	show_percent_change?: boolean
 }
 
 export type YAxis = {
@@ -84,12 +162,42 @@ export type DountChartConfig = {
 	value_column: Measure
 	legend_position?: 'top' | 'bottom' | 'left' | 'right'
 	show_inline_labels?: boolean;
+	facet?: Facet
+	drill_hierarchy?: DrillHierarchy
 }
 export type FunnelChartConfig = {
 	label_column: Dimension
 	value_column: Measure
 }
 
+export type ScatterChartConfig = {
+	// each point is a value of this dimension
+	dimension: Dimension
+	x_measure: Measure
+	y_measure: Measure
+	size_measure?: Measure
+	color_dimension?: Dimension
+}
+
+export type HeatmapChartConfig = {
+	x_dimension: Dimension
+	y_dimension: Dimension
+	value_column: Measure
+	show_data_labels?: boolean
+}
+
+export type MapChartConfig = {
+	mode: 'Region' | 'Point'
+	// name of the bundled GeoJSON map
+	map?: string
+	region_column?: Dimension
+	value_column?: Measure
+	latitude_column?: Dimension
+	longitude_column?: Dimension
+	size_measure?: Measure
+	color_measure?: Measure
+}
+
 export type TableChartConfig = {
 	rows: Dimension[]
 	columns: Dimension[]
@@ -98,6 +206,30 @@ export type TableChartConfig = {
 	show_row_totals?: boolean
 	show_column_totals?: boolean
 	enable_color_scale?: boolean
+	conditional_formatting?: ConditionalFormatRule[]
+}
+
+export type ConditionalFormatType = 'color_scale' | 'threshold' | 'data_bar' | 'icon_set'
+export type ConditionalFormatOperator = '>' | '>=' | '<' | '<=' | '=' | '!=' | 'between'
+export type ConditionalFormatRule = {
+	// name of the measure, also applies to its pivoted columns (value___measure)
+	column_name: string
+	type: ConditionalFormatType
+	// color scale, the min and max of the column are used if the values are not set
+	min_value?: number
+	mid_value?: number
+	max_value?: number
+	min_color?: string
+	mid_color?: string
+	max_color?: string
+	// threshold, also used as the pivot of the icon set
+	operator?: ConditionalFormatOperator
+	value?: number
+	value_to?: number
+	background_color?: string
+	text_color?: string
+	// data bar
+	bar_color?: string
 }
 
-export type ChartConfig = LineChartConfig | BarChartConfig | NumberChartConfig | DountChartConfig | TableChartConfig | FunnelChartConfig
+export type ChartConfig = LineChartConfig | BarChartConfig | NumberChartConfig | DountChartConfig | TableChartConfig | FunnelChartConfig | ScatterChartConfig | HeatmapChartConfig | MapChartConfig
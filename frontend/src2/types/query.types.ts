@@ -4,6 +4,7 @@ export type QueryTableArgs = {
 	workbook: string
 	query_name: string
 	operations?: Operation[]
+	parameters?: QueryParameterValues
 }
 export type Table = TableArgs | QueryTableArgs
 export type Column = {
@@ -16,11 +17,16 @@ export type ColumnMeasure = {
 	column_name: string
 	data_type: MeasureDataType
 	aggregation: AggregationType
+	// name of the workbook measure this measure was picked from
+	workbook_measure?: string
+	format?: NumberFormat
 }
 export type ExpressionMeasure = {
 	measure_name: string
 	expression: Expression
 	data_type: MeasureDataType
+	workbook_measure?: string
+	format?: NumberFormat
 }
 export type MeasureOption = Measure & { label: string; value: string }
 export type Dimension = {
@@ -28,6 +34,8 @@ export type Dimension = {
 	column_name: string
 	data_type: DimensionDataType
 	granularity?: GranularityType
+	// name of the workbook dimension this dimension was picked from
+	workbook_dimension?: string
 }
 export type DimensionOption = Dimension & { label: string; value: string }
 
@@ -43,8 +51,29 @@ export type MeasureDataType = 'String' | 'Integer' | 'Decimal'
 export type DimensionDataType = 'String' | 'Date' | 'Datetime' | 'Time'
 export const aggregations = ['sum', 'count', 'avg', 'min', 'max', 'count_distinct']
 export type AggregationType = (typeof aggregations)[number]
-export type GranularityType = 'day' | 'week' | 'month' | 'quarter' | 'year'
+export type GranularityType =
+	| 'day'
+	| 'week'
+	| 'month'
+	| 'quarter'
+	| 'year'
+	| 'fiscal_quarter'
+	| 'fiscal_year'
 export type DataFormat = 'currency' | 'percent'
+export type NegativeNumberStyle = 'minus' | 'parentheses'
+// how the values of a measure are displayed in charts, tables and exports
+export type NumberFormat = {
+	type?: 'number' | DataFormat
+	// ISO 4217 code, eg. USD
+	currency?: string
+	// defaults to the locale of the user
+	locale?: string
+	decimals?: number
+	compact?: boolean
+	negative_style?: NegativeNumberStyle
+	prefix?: string
+	suffix?: string
+}
 
 export type FilterOperator =
 	| '='
@@ -69,6 +98,17 @@ export type Expression = {
 	expression: string
 }
 
+export const parameterTypes = ['String', 'Number', 'Date', 'DateRange', 'List'] as const
+export type QueryParameterType = (typeof parameterTypes)[number]
+export type QueryParameterValue = string | number | string[] | undefined
+export type QueryParameterValues = Record<string, QueryParameterValue>
+export type QueryParameter = {
+	name: string
+	label?: string
+	type: QueryParameterType
+	default_value?: QueryParameterValue
+}
+
 export type SourceArgs = { table: Table }
 export type Source = { type: 'source' } & SourceArgs
 
@@ -123,12 +163,21 @@ export type OrderBy = { type: 'order_by' } & OrderByArgs
 
 export type Limit = { type: 'limit'; limit: number }
 
-export type WindowOperationType = 'sum' | 'lag_difference' | 'row_number'
+export type WindowOperationType =
+	| 'sum'
+	| 'lag_difference'
+	| 'row_number'
+	| 'rank'
+	| 'dense_rank'
+	| 'moving_average'
+	| 'percent_of_total'
 export type WindowOperationArgs = {
 	op: WindowOperationType
 	column: Column
+	new_name: string
 	partition_by?: Column
 	order_by?: Column
+	window_size?: number
 }
 export type WindowOperation = { type: 'window_operation' } & WindowOperationArgs
 
@@ -162,6 +211,7 @@ export type Operation =
 	| Summarize
 	| OrderBy
 	| Limit
+	| WindowOperation
 	| PivotWider
 	| CustomOperation
 	| SQL
@@ -197,6 +247,8 @@ export type GroupedColumnOption = {
 export type QueryResult = {
 	executedSQL: string
 	totalRowCount: number
+	page: number
+	pageSize: number
 	rows: QueryResultRow[]
 	formattedRows: QueryResultRow[]
 	columns: QueryResultColumn[]
@@ -1,5 +1,13 @@
 import { ChartConfig, ChartType } from './chart.types'
-import { ColumnDataType, FilterGroupArgs, Measure, Operation, OrderByArgs } from './query.types'
+import {
+	ColumnDataType,
+	Dimension,
+	FilterGroupArgs,
+	Measure,
+	Operation,
+	OrderByArgs,
+	QueryParameter,
+} from './query.types'
 
 export type WorkbookListItem = {
 	title: string
@@ -22,6 +30,8 @@ export type InsightsWorkbook = {
 	queries: WorkbookQuery[]
 	charts: WorkbookChart[]
 	dashboards: WorkbookDashboard[]
+	measures: WorkbookMeasure[]
+	dimensions: WorkbookDimension[]
 	enable_auto_save?: boolean
 }
 
@@ -31,11 +41,32 @@ export type WorkbookQuery = {
 	operations: Operation[]
 	use_live_connection?: boolean
 	calculated_measures?: Record<string, Measure>
+	parameters?: QueryParameter[]
+	// seconds after which the execution is cancelled
+	timeout?: number
 	is_native_query?: boolean
 	is_script_query?: boolean
 	is_builder_query?: boolean
 }
 
+// measures & dimensions defined once in the workbook and picked by any chart
+export type WorkbookMeasure = {
+	name: string
+	measure: Measure
+	description?: string
+	owner?: string
+	// query the definition is validated against
+	query?: string
+}
+
+export type WorkbookDimension = {
+	name: string
+	dimension: Dimension
+	description?: string
+	owner?: string
+	query?: string
+}
+
 export type WorkbookChart = {
 	name: string
 	title: string
@@ -57,11 +88,22 @@ export type WorkbookDashboard = {
 	name: string
 	title: string
 	items: WorkbookDashboardItem[]
+	tabs?: WorkbookDashboardTab[]
 	is_public?: boolean
 	share_link?: string
 }
 
-export type WorkbookDashboardItem = WorkbookDashboardChart
+export type WorkbookDashboardTab = {
+	name: string
+	title: string
+}
+
+export type WorkbookDashboardItem =
+	| WorkbookDashboardChart
+	| WorkbookDashboardFilter
+	| WorkbookDashboardText
+	| WorkbookDashboardImage
+	| WorkbookDashboardHeader
 
 export type Layout = {
 	i: string
@@ -73,16 +115,47 @@ export type Layout = {
 export type WorkbookDashboardChart = {
 	type: 'chart'
 	chart: string
+	// name of the tab the item is on, items without one are on the first tab
+	tab?: string
 	layout: Layout
 }
 export type WorkbookDashboardFilter = {
 	type: 'filter'
 	column: DashboardFilterColumn
+	filter_type?: DashboardFilterType
+	label?: string
+	// columns the filter applies to in queries that do not have the column, by query name
+	links?: Record<string, string>
+	tab?: string
 	layout: Layout
 }
+export type DashboardFilterType =
+	| 'dropdown'
+	| 'multi_select'
+	| 'date_range'
+	| 'relative_date'
+	| 'number_range'
 export type WorkbookDashboardText = {
 	type: 'text'
+	// placeholders like {{chart:Revenue.total}} are replaced with the values of the charts
 	text: string
+	tab?: string
+	layout: Layout
+}
+export type WorkbookDashboardImage = {
+	type: 'image'
+	url: string
+	alt?: string
+	fit?: 'contain' | 'cover'
+	tab?: string
+	layout: Layout
+}
+// a divider that starts a section of the dashboard, with an optional title
+export type WorkbookDashboardHeader = {
+	type: 'header'
+	title?: string
+	description?: string
+	tab?: string
 	layout: Layout
 }
 export type DashboardFilterColumn = {
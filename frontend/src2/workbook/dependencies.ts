@@ -0,0 +1,138 @@
+import { Operation } from '../types/query.types'
+import { WorkbookChart, WorkbookDashboard, WorkbookQuery } from '../types/workbook.types'
+
+type DependencyResolver = (query_name: string) => string[]
+
+export function getQueryDependencies(operations: Operation[] = []): string[] {
+	const dependencies = [] as string[]
+	operations.forEach((op) => {
+		if (op.type !== 'source' && op.type !== 'join' && op.type !== 'union') return
+		if (op.table.type !== 'query' || !op.table.query_name) return
+		if (!dependencies.includes(op.table.query_name)) {
+			dependencies.push(op.table.query_name)
+		}
+	})
+	return dependencies
+}
+
+// returns all the queries that the given query depends on, directly or indirectly
+export function getUpstreamQueries(query_name: string, getDependencies: DependencyResolver) {
+	const visited = new Set<string>()
+	const visit = (name: string) => {
+		getDependencies(name).forEach((dependency) => {
+			if (visited.has(dependency)) return
+			visited.add(dependency)
+			visit(dependency)
+		})
+	}
+	visit(query_name)
+	visited.delete(query_name)
+	return Array.from(visited)
+}
+
+// returns the path of queries that forms a cycle through the given query, if any
+export function findCycle(query_name: string, getDependencies: DependencyResolver) {
+	const path = [] as string[]
+	const visited = new Set<string>()
+	const visit = (name: string): string[] | null => {
+		if (path.includes(name)) {
+			return [...path.slice(path.indexOf(name)), name]
+		}
+		if (visited.has(name)) return null
+		visited.add(name)
+		path.push(name)
+		for (const dependency of getDependencies(name)) {
+			const cycle = visit(dependency)
+			if (cycle) return cycle
+		}
+		path.pop()
+		return null
+	}
+	return visit(query_name)
+}
+
+// checks if making `query_name` depend on `dependency_name` would create a cycle
+export function createsCycle(
+	query_name: string,
+	dependency_name: string,
+	getDependencies: DependencyResolver
+) {
+	if (query_name === dependency_name) return true
+	return getUpstreamQueries(dependency_name, getDependencies).includes(query_name)
+}
+
+type WorkbookItems = {
+	queries: WorkbookQuery[]
+	charts: WorkbookChart[]
+	dashboards: WorkbookDashboard[]
+}
+
+export type QueryDependents = {
+	queries: WorkbookQuery[]
+	charts: WorkbookChart[]
+	dashboards: WorkbookDashboard[]
+}
+
+export function makeDependencyGraph(workbook: WorkbookItems) {
+	const dependencies = {} as Record<string, string[]>
+	const dependents = {} as Record<string, string[]>
+
+	workbook.queries.forEach((q) => {
+		dependencies[q.name] = getQueryDependencies(q.operations)
+		dependents[q.name] = dependents[q.name] || []
+		dependencies[q.name].forEach((dependency) => {
+			dependents[dependency] = dependents[dependency] || []
+			dependents[dependency].push(q.name)
+		})
+	})
+
+	const getDependencies = (name: string) => dependencies[name] || []
+	const getDependents = (name: string) => dependents[name] || []
+
+	function getDownstreamQueries(query_name: string) {
+		return getUpstreamQueries(query_name, getDependents)
+	}
+
+	function getQueryDependents(query_name: string): QueryDependents {
+		const affectedQueries = [query_name, ...getDownstreamQueries(query_name)]
+		const charts = workbook.charts.filter((c) => affectedQueries.includes(c.query))
+		const chartNames = charts.map((c) => c.name)
+		const dashboards = workbook.dashboards.filter((d) =>
+			d.items.some((item) => item.type === 'chart' && chartNames.includes(item.chart))
+		)
+		return {
+			queries: workbook.queries.filter(
+				(q) => q.name !== query_name && affectedQueries.includes(q.name)
+			),
+			charts,
+			dashboards,
+		}
+	}
+
+	// orders the queries such that every query comes after the queries it depends on
+	function sortTopologically(query_names: string[]) {
+		const sorted = [] as string[]
+		const visited = new Set<string>()
+		const visit = (name: string) => {
+			if (visited.has(name)) return
+			visited.add(name)
+			getDependencies(name).forEach(visit)
+			if (query_names.includes(name)) sorted.push(name)
+		}
+		query_names.forEach(visit)
+		return sorted
+	}
+
+	return {
+		getDependencies,
+		getUpstreamQueries: (query_name: string) => getUpstreamQueries(query_name, getDependencies),
+		getDownstreamQueries,
+		getQueryDependents,
+		sortTopologically,
+		findCycle: (query_name: string) => findCycle(query_name, getDependencies),
+		createsCycle: (query_name: string, dependency_name: string) =>
+			createsCycle(query_name, dependency_name, getDependencies),
+	}
+}
+
+export type DependencyGraph = ReturnType<typeof makeDependencyGraph>
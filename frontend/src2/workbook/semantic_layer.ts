@@ -0,0 +1,147 @@
+import { areDeeplyEqual, copy } from '../helpers'
+import { FIELDTYPES } from '../helpers/constants'
+import { Dimension, Measure, QueryResultColumn } from '../types/query.types'
+import { WorkbookChart, WorkbookDimension, WorkbookMeasure } from '../types/workbook.types'
+
+const PYTHON_KEYWORDS = ['and', 'or', 'not', 'in', 'is', 'if', 'else', 'None', 'True', 'False']
+
+// returns the names of the columns used in the measure
+export function getReferencedColumns(measure: Measure): string[] {
+	if ('column_name' in measure) {
+		return measure.column_name && measure.column_name !== 'count' ? [measure.column_name] : []
+	}
+
+	// identifiers that are not function calls, attributes, keywords or inside string literals
+	const expression = (measure.expression?.expression || '').replace(/(["'])(?:\\.|(?!\1).)*\1/g, '')
+	const columns = new Set<string>()
+	for (const match of expression.matchAll(/(\.)?\b([A-Za-z_]\w*)\b(\s*\()?/g)) {
+		const [, isAttribute, identifier, isCall] = match
+		if (isAttribute || isCall || PYTHON_KEYWORDS.includes(identifier)) continue
+		columns.add(identifier)
+	}
+	return Array.from(columns)
+}
+
+export function validateMeasure(measure: Measure, columns: QueryResultColumn[]): string[] {
+	const errors = [] as string[]
+	if (!measure.measure_name) errors.push('Measure name is not set')
+
+	if ('column_name' in measure) {
+		if (!measure.aggregation) errors.push('Aggregation is not selected')
+		if (!measure.column_name) errors.push('Column is not selected')
+		if (measure.column_name === 'count' && measure.aggregation === 'count') return errors
+
+		const column = columns.find((c) => c.name === measure.column_name)
+		if (measure.column_name && !column) {
+			errors.push(`Column ${measure.column_name} does not exist`)
+		}
+		if (column && ['sum', 'avg'].includes(measure.aggregation)) {
+			if (!FIELDTYPES.NUMBER.includes(column.type)) {
+				errors.push(`Cannot ${measure.aggregation} ${column.name}, it is not a number`)
+			}
+		}
+		return errors
+	}
+
+	if (!measure.expression?.expression?.trim()) {
+		errors.push('Expression is empty')
+		return errors
+	}
+	getReferencedColumns(measure).forEach((column_name) => {
+		if (!columns.some((c) => c.name === column_name)) {
+			errors.push(`Column ${column_name} does not exist`)
+		}
+	})
+	return errors
+}
+
+export function validateDimension(dimension: Dimension, columns: QueryResultColumn[]): string[] {
+	const errors = [] as string[]
+	if (!dimension.dimension_name) errors.push('Dimension name is not set')
+	if (!dimension.column_name) {
+		errors.push('Column is not selected')
+		return errors
+	}
+
+	const column = columns.find((c) => c.name === dimension.column_name)
+	if (!column) {
+		errors.push(`Column ${dimension.column_name} does not exist`)
+	} else if (dimension.granularity && !FIELDTYPES.DATE.includes(column.type)) {
+		errors.push(`Granularity can only be set for date columns`)
+	}
+	return errors
+}
+
+// a definition is compatible with a query if all the columns it uses exist in the query
+export function isMeasureCompatible(def: WorkbookMeasure, columns: QueryResultColumn[]) {
+	return columns.length > 0 && validateMeasure(def.measure, columns).length === 0
+}
+
+export function isDimensionCompatible(def: WorkbookDimension, columns: QueryResultColumn[]) {
+	return columns.length > 0 && validateDimension(def.dimension, columns).length === 0
+}
+
+export function toChartMeasure(def: WorkbookMeasure): Measure {
+	return { ...copy(def.measure), workbook_measure: def.name }
+}
+
+export function toChartDimension(def: WorkbookDimension): Dimension {
+	return { ...copy(def.dimension), workbook_dimension: def.name }
+}
+
+type ReferenceKey = 'workbook_measure' | 'workbook_dimension'
+
+// settings of the measure or dimension that are set per chart and not in the definition
+const CHART_SETTINGS = ['granularity', 'format']
+
+// returns the charts that use the workbook measure or dimension
+export function getChartsUsing(charts: WorkbookChart[], key: ReferenceKey, name: string) {
+	return charts.filter((chart) => {
+		let found = false
+		walkReferences(chart.config, key, name, () => (found = true))
+		return found
+	})
+}
+
+// updates the copies of the measure or dimension stored in the chart configs,
+// keeping the settings like granularity & format that the chart changed from the `previous`
+// definition. if `value` is not passed the copies are detached from the workbook definition instead
+export function replaceReferences(
+	charts: WorkbookChart[],
+	key: ReferenceKey,
+	name: string,
+	value?: Measure | Dimension,
+	previous?: Measure | Dimension
+) {
+	charts.forEach((chart) => {
+		walkReferences(chart.config, key, name, (obj) => {
+			if (!value) {
+				delete obj[key]
+				return
+			}
+			const settings = CHART_SETTINGS.filter(
+				(k) => obj[k] !== undefined && !areDeeplyEqual(obj[k], (previous as any)?.[k])
+			).map((k) => [k, obj[k]])
+			Object.keys(obj).forEach((k) => delete obj[k])
+			Object.assign(obj, copy(value), Object.fromEntries(settings))
+		})
+	})
+}
+
+function walkReferences(
+	value: any,
+	key: ReferenceKey,
+	name: string,
+	callback: (obj: Record<string, any>) => void
+) {
+	if (!value || typeof value !== 'object') return
+	if (Array.isArray(value)) {
+		value.forEach((v) => walkReferences(v, key, name, callback))
+		return
+	}
+	if (value[key] === name) {
+		callback(value)
+		return
+	}
+	Object.values(value).forEach((v) => walkReferences(v, key, name, callback))
+}
@@ -11,10 +11,18 @@ import useDocumentResource from '../helpers/resource'
 import { createToast } from '../helpers/toasts'
 import useQuery, { getCachedQuery } from '../query/query'
 import session from '../session'
-import { Join, Source } from '../types/query.types'
+import { getQueryDependencies, getUpstreamQueries, makeDependencyGraph } from './dependencies'
+import {
+	getChartsUsing,
+	replaceReferences,
+	toChartDimension,
+	toChartMeasure,
+} from './semantic_layer'
 import type {
 	InsightsWorkbook,
 	WorkbookChart,
+	WorkbookDimension,
+	WorkbookMeasure,
 	WorkbookSharePermission as WorkbookUserPermission,
 } from '../types/workbook.types'
 
@@ -67,6 +75,8 @@ export default function useWorkbook(name: string) {
 		setActiveTab('query', idx)
 	}
 
+	const dependencyGraph = computed(() => makeDependencyGraph(workbook.doc))
+
 	function removeQuery(queryName: string) {
 		function _remove() {
 			const idx = workbook.doc.queries.findIndex((row) => row.name === queryName)
@@ -77,13 +87,32 @@ export default function useWorkbook(name: string) {
 			}
 		}
 
+		const dependents = dependencyGraph.value.getQueryDependents(queryName)
+		const dependentTitles = [
+			...dependents.queries.map((q) => q.title || q.name),
+			...dependents.charts.map((c) => c.title || c.name),
+			...dependents.dashboards.map((d) => d.title || d.name),
+		]
+
 		confirmDialog({
 			title: 'Delete Query',
-			message: 'Are you sure you want to delete this query?',
+			message: dependentTitles.length
+				? `This query is used by ${dependentTitles.join(', ')}. ` +
+				  'They will stop working once this query is deleted. Are you sure you want to delete it?'
+				: 'Are you sure you want to delete this query?',
+			theme: dependentTitles.length ? 'red' : undefined,
 			onSuccess: _remove,
 		})
 	}
 
+	async function executeDownstreamQueries(queryName: string) {
+		const graph = dependencyGraph.value
+		const downstreamQueries = graph.sortTopologically(graph.getDownstreamQueries(queryName))
+		for (const name of downstreamQueries) {
+			await getCachedQuery(name)?.execute()
+		}
+	}
+
 	function addChart(query_name?: string) {
 		const idx = workbook.doc.charts.length
 		workbook.doc.charts.push({
@@ -142,6 +171,85 @@ export default function useWorkbook(name: string) {
 		})
 	}
 
+	function addMeasure(measure: Omit<WorkbookMeasure, 'name' | 'owner'>) {
+		const newMeasure = { ...measure, name: getUniqueId(), owner: session.user?.email }
+		workbook.doc.measures.push(newMeasure)
+		return newMeasure
+	}
+
+	function updateMeasure(measure: WorkbookMeasure) {
+		const idx = workbook.doc.measures.findIndex((m) => m.name === measure.name)
+		if (idx === -1) return
+		const previous = workbook.doc.measures[idx]
+		workbook.doc.measures[idx] = measure
+		// charts keep a copy of the measure, update them to use the new definition
+		replaceReferences(
+			workbook.doc.charts,
+			'workbook_measure',
+			measure.name,
+			toChartMeasure(measure),
+			toChartMeasure(previous)
+		)
+	}
+
+	function removeMeasure(measureName: string) {
+		function _remove() {
+			const idx = workbook.doc.measures.findIndex((m) => m.name === measureName)
+			if (idx === -1) return
+			workbook.doc.measures.splice(idx, 1)
+			replaceReferences(workbook.doc.charts, 'workbook_measure', measureName)
+		}
+
+		const charts = getChartsUsing(workbook.doc.charts, 'workbook_measure', measureName)
+		confirmDialog({
+			title: 'Delete Measure',
+			message: charts.length
+				? `This measure is used by ${charts.map((c) => c.title).join(', ')}. ` +
+				  'The charts will keep their own copy of the measure. Are you sure you want to delete it?'
+				: 'Are you sure you want to delete this measure?',
+			onSuccess: _remove,
+		})
+	}
+
+	function addDimension(dimension: Omit<WorkbookDimension, 'name' | 'owner'>) {
+		const newDimension = { ...dimension, name: getUniqueId(), owner: session.user?.email }
+		workbook.doc.dimensions.push(newDimension)
+		return newDimension
+	}
+
+	function updateDimension(dimension: WorkbookDimension) {
+		const idx = workbook.doc.dimensions.findIndex((d) => d.name === dimension.name)
+		if (idx === -1) return
+		const previous = workbook.doc.dimensions[idx]
+		workbook.doc.dimensions[idx] = dimension
+		replaceReferences(
+			workbook.doc.charts,
+			'workbook_dimension',
+			dimension.name,
+			toChartDimension(dimension),
+			toChartDimension(previous)
+		)
+	}
+
+	function removeDimension(dimensionName: string) {
+		function _remove() {
+			const idx = workbook.doc.dimensions.findIndex((d) => d.name === dimensionName)
+			if (idx === -1) return
+			workbook.doc.dimensions.splice(idx, 1)
+			replaceReferences(workbook.doc.charts, 'workbook_dimension', dimensionName)
+		}
+
+		const charts = getChartsUsing(workbook.doc.charts, 'workbook_dimension', dimensionName)
+		confirmDialog({
+			title: 'Delete Dimension',
+			message: charts.length
+				? `This dimension is used by ${charts.map((c) => c.title).join(', ')}. ` +
+				  'The charts will keep their own copy of the dimension. Are you sure you want to delete it?'
+				: 'Are you sure you want to delete this dimension?',
+			onSuccess: _remove,
+		})
+	}
+
 	const isOwner = computed(() => workbook.doc.owner === session.user?.email)
 	const canShare = computed(() => isOwner.value)
 
@@ -229,10 +337,19 @@ export default function useWorkbook(name: string) {
 		addDashboard,
 		removeDashboard,
 
+		addMeasure,
+		updateMeasure,
+		removeMeasure,
+		addDimension,
+		updateDimension,
+		removeDimension,
+
 		getSharePermissions,
 		updateSharePermissions,
 
 		getLinkedQueries,
+		dependencyGraph,
+		executeDownstreamQueries,
 
 		delete: deleteWorkbook,
 	})
@@ -252,11 +369,15 @@ function getWorkbookResource(name: string) {
 			queries: [],
 			charts: [],
 			dashboards: [],
+			measures: [],
+			dimensions: [],
 		},
 		transform(doc: any) {
 			doc.queries = safeJSONParse(doc.queries) || []
 			doc.charts = safeJSONParse(doc.charts) || []
 			doc.dashboards = safeJSONParse(doc.dashboards) || []
+			doc.measures = safeJSONParse(doc.measures) || []
+			doc.dimensions = safeJSONParse(doc.dimensions) || []
 
 			doc.queries.forEach((query: any) => {
 				if (
@@ -299,40 +420,11 @@ export function newWorkbookName() {
 
 
 export function getLinkedQueries(query_name: string): string[] {
-	const query = getCachedQuery(query_name)
-	if (!query) {
+	if (!getCachedQuery(query_name)) {
 		console.error(`Query ${query_name} not found`)
 		return []
 	}
-
-	const querySource = query.doc.operations.find(
-		(op) => op.type === 'source' && op.table.type === 'query' && op.table.query_name
-	) as Source
-
-	const queryJoins = query.doc.operations.filter(
-		(op) => op.type === 'join' && op.table.type === 'query' && op.table.query_name
-	) as Join[]
-
-	const linkedQueries = [] as string[]
-	if (querySource && querySource.table.type === 'query') {
-		linkedQueries.push(querySource.table.query_name)
-	}
-	if (queryJoins.length) {
-		queryJoins.forEach((j) => {
-			if (j.table.type === 'query') {
-				linkedQueries.push(j.table.query_name)
-			}
-		})
-	}
-
-	const linkedQueriesByQuery = {} as Record<string, string[]>
-	linkedQueries.forEach((q) => {
-		linkedQueriesByQuery[q] = getLinkedQueries(q)
-	})
-
-	Object.values(linkedQueriesByQuery).forEach((subLinkedQueries) => {
-		linkedQueries.concat(subLinkedQueries)
-	})
-
-	return linkedQueries
+	return getUpstreamQueries(query_name, (name) =>
+		getQueryDependencies(getCachedQuery(name)?.doc.operations)
+	)
 }
@@ -1,6 +1,26 @@
 import frappe
 
-from insights.decorators import insights_whitelist
+from insights.decorators import insights_whitelist, validate_type
+
+CHART_ALERT_FIELDS = [
+    "title",
+    "disabled",
+    "chart",
+    "measure",
+    "condition",
+    "operator",
+    "threshold",
+    "frequency",
+    "check_time",
+    "cron_format",
+    "timezone",
+    "cooldown",
+    "notify_email",
+    "recipients",
+    "notify_webhook",
+    "webhook_url",
+    "notify_in_app",
+]
 
 
 @insights_whitelist()
@@ -21,3 +41,100 @@ def test_alert(alert):
         alert_doc.send_alert()
         return True
     return False
+
+
+@insights_whitelist()
+@validate_type
+def get_chart_alerts(workbook: str):
+    check_workbook_permission(workbook)
+    alerts = frappe.get_all(
+        "Insights Chart Alert",
+        filters={"workbook": workbook},
+        fields=[
+            "name",
+            "workbook",
+            "last_execution",
+            "last_fired_on",
+            "last_value",
+            *CHART_ALERT_FIELDS,
+        ],
+        order_by="creation desc",
+    )
+    for alert in alerts:
+        alert.check_time = str(alert.check_time) if alert.check_time else None
+        alert.next_execution = frappe.get_doc(
+            "Insights Chart Alert", alert.name
+        ).next_execution
+    return alerts
+
+
+@insights_whitelist()
+@validate_type
+def save_chart_alert(alert: dict):
+    alert = frappe._dict(alert)
+    check_workbook_permission(alert.workbook)
+
+    if alert.name:
+        doc = frappe.get_doc("Insights Chart Alert", alert.name)
+        if doc.workbook != alert.workbook:
+            frappe.throw("Alert does not belong to this workbook")
+    else:
+        doc = frappe.new_doc("Insights Chart Alert")
+        doc.workbook = alert.workbook
+
+    for field in CHART_ALERT_FIELDS:
+        if field in alert:
+            doc.set(field, alert[field])
+    doc.save(ignore_permissions=True)
+    return doc.name
+
+
+@insights_whitelist()
+@validate_type
+def delete_chart_alert(name: str):
+    doc = frappe.get_doc("Insights Chart Alert", name)
+    check_workbook_permission(doc.workbook)
+    frappe.db.delete("Insights Chart Alert Log", {"alert": name})
+    doc.delete(ignore_permissions=True)
+
+
+@insights_whitelist()
+@validate_type
+def test_chart_alert(name: str):
+    doc = frappe.get_doc("Insights Chart Alert", name)
+    check_workbook_permission(doc.workbook)
+    return doc.evaluate(force=True)
+
+
+@insights_whitelist()
+@validate_type
+def get_chart_alert_history(workbook: str, alert: str | None = None, limit: int = 50):
+    check_workbook_permission(workbook)
+    filters = {"workbook": workbook}
+    if alert:
+        filters["alert"] = alert
+    return frappe.get_all(
+        "Insights Chart Alert Log",
+        filters=filters,
+        fields=[
+            "name",
+            "alert",
+            "chart",
+            "status",
+            "value",
+            "threshold",
+            "channels",
+            "error",
+            "creation",
+        ],
+        order_by="creation desc",
+        limit=limit,
+    )
+
+
+def check_workbook_permission(workbook: str):
+    if not frappe.has_permission("Insights Workbook", "write", workbook):
+        frappe.throw(
+            "You do not have permission to manage alerts of this workbook",
+            frappe.PermissionError,
+        )
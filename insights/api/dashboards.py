@@ -93,7 +93,9 @@ def get_dashboards(search_term=None, limit=50):
                     "name": dashboard["name"],
                     "title": dashboard["title"],
                     "workbook": workbook.name,
-                    "charts": len(dashboard["items"]),
+                    "charts": len(
+                        [item for item in dashboard["items"] if item["type"] == "chart"]
+                    ),
                     "modified": workbook["modified"],
                     "preview_image": dashboard.get("preview_image"),
                 }
@@ -1,7 +1,18 @@
 import frappe
 
 from insights.decorators import insights_whitelist, validate_type
-from insights.insights.doctype.insights_table_v3.insights_table_v3 import get_table_name
+from insights.insights.doctype.insights_table_v3.insights_table_v3 import (
+    get_next_sync_on,
+    get_table_name,
+)
+
+SCHEDULE_FIELDS = [
+    "sync_frequency",
+    "sync_time",
+    "cron_format",
+    "max_retries",
+    "retry_interval",
+]
 
 
 @insights_whitelist()
@@ -20,6 +31,22 @@ def get_data_store_tables(data_source=None, search_term=None, limit=100):
             Table.label,
             Table.data_source,
             Table.last_synced_on,
+            Table.sync_mode,
+            Table.incremental_column,
+            Table.incremental_strategy,
+            Table.unique_key,
+            Table.row_limit,
+            Table.row_count,
+            Table.last_sync_duration,
+            Table.sync_frequency,
+            Table.sync_time,
+            Table.cron_format,
+            Table.max_retries,
+            Table.retry_interval,
+            Table.retry_count,
+            Table.last_sync_status,
+            Table.last_sync_attempt_on,
+            Table.last_sync_error,
             DataSource.database_type,
         )
         .where(
@@ -49,6 +76,23 @@ def get_data_store_tables(data_source=None, search_term=None, limit=100):
                     "data_source": table.data_source,
                     "database_type": table.database_type,
                     "last_synced_on": table.last_synced_on,
+                    "sync_mode": table.sync_mode or "Full",
+                    "incremental_column": table.incremental_column,
+                    "incremental_strategy": table.incremental_strategy or "Append",
+                    "unique_key": table.unique_key,
+                    "row_limit": table.row_limit,
+                    "row_count": table.row_count,
+                    "last_sync_duration": table.last_sync_duration,
+                    "sync_frequency": table.sync_frequency or "Manual",
+                    "sync_time": str(table.sync_time) if table.sync_time else None,
+                    "cron_format": table.cron_format,
+                    "max_retries": table.max_retries,
+                    "retry_interval": table.retry_interval,
+                    "retry_count": table.retry_count,
+                    "last_sync_status": table.last_sync_status,
+                    "last_sync_attempt_on": table.last_sync_attempt_on,
+                    "last_sync_error": table.last_sync_error,
+                    "next_sync_on": get_next_sync_on(table),
                 }
             )
         )
@@ -57,23 +101,85 @@ def get_data_store_tables(data_source=None, search_term=None, limit=100):
 
 @insights_whitelist()
 @validate_type
-def import_table(data_source: str, table_name: str):
+def import_table(data_source: str, table_name: str, sync_settings: dict | None = None):
     frappe.only_for("Insights Admin")
     name = get_table_name(data_source, table_name)
     table_doc = frappe.get_doc("Insights Table v3", name)
+    if sync_settings:
+        update_sync_settings(table_doc, sync_settings)
     table_doc.import_to_warehouse()
 
 
+def update_sync_settings(table_doc, sync_settings: dict):
+    sync_settings = frappe._dict(sync_settings)
+    sync_mode = sync_settings.sync_mode or "Full"
+    if sync_mode not in ("Full", "Incremental"):
+        frappe.throw(f"Invalid sync mode: {sync_mode}")
+
+    incremental_fields = {
+        "incremental_column": sync_settings.incremental_column,
+        "incremental_strategy": sync_settings.incremental_strategy or "Append",
+        "unique_key": sync_settings.unique_key,
+    }
+    # changing how the table is synced invalidates the bookmark of the last sync
+    if sync_mode != table_doc.sync_mode or any(
+        table_doc.get(field) != value for field, value in incremental_fields.items()
+    ):
+        table_doc.last_sync_bookmark = None
+
+    table_doc.sync_mode = sync_mode
+    table_doc.update(incremental_fields)
+    table_doc.row_limit = sync_settings.row_limit or 0
+    for field in SCHEDULE_FIELDS:
+        if field in sync_settings:
+            table_doc.set(field, sync_settings[field])
+    table_doc.save()
+
+
+@insights_whitelist()
+@validate_type
+def update_table_sync_settings(data_source: str, table_name: str, sync_settings: dict):
+    frappe.only_for("Insights Admin")
+    name = get_table_name(data_source, table_name)
+    table_doc = frappe.get_doc("Insights Table v3", name)
+    update_sync_settings(table_doc, sync_settings)
+
+
+@insights_whitelist()
+@validate_type
+def get_table_sync_history(data_source: str, table_name: str, limit: int = 20):
+    frappe.only_for("Insights Admin")
+    return frappe.get_all(
+        "Insights Table Import Log",
+        filters={"data_source": data_source, "table_name": table_name},
+        fields=[
+            "name",
+            "status",
+            "sync_mode",
+            "started_at",
+            "ended_at",
+            "time_taken",
+            "rows_imported",
+            "error",
+        ],
+        order_by="creation desc",
+        limit=limit,
+    )
+
+
 def sync_tables():
-    # called daily via hooks
+    # called every few minutes via hooks,
+    # imports the tables that are due as per their sync schedule or retry policy
     tables = frappe.get_all(
         "Insights Table v3",
-        filters={"stored": 1},
-        fields=["name", "data_source", "table"],
+        filters={"stored": 1, "sync_frequency": ["!=", "Manual"]},
+        pluck="name",
     )
 
-    for table in tables:
-        import_table(table.data_source, table.table)
+    for name in tables:
+        table = frappe.get_doc("Insights Table v3", name)
+        if table.is_sync_due():
+            import_table(table.data_source, table.table)
 
 
 def update_failed_sync_status():
@@ -87,6 +193,18 @@ def update_failed_sync_status():
         pluck="name",
     )
 
+    Table = frappe.qb.DocType("Insights Table v3")
+    tables = frappe.db.get_values(
+        Table,
+        (
+            (Table.last_sync_status == "In Progress")
+            & (Table.last_sync_attempt_on < (Now() - Interval(hours=1)))
+        ),
+        pluck="name",
+    )
+    for table in tables:
+        frappe.db.set_value("Insights Table v3", table, "last_sync_status", "Failed")
+
     if not logs:
         return
 
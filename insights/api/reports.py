@@ -0,0 +1,107 @@
+import frappe
+
+from insights.decorators import insights_whitelist, validate_type
+
+REPORT_FIELDS = [
+    "title",
+    "disabled",
+    "reference_type",
+    "reference_name",
+    "format",
+    "recipients",
+    "filters",
+    "frequency",
+    "send_time",
+    "cron_format",
+    "timezone",
+]
+
+
+@insights_whitelist()
+@validate_type
+def get_reports(workbook: str):
+    check_workbook_permission(workbook)
+    reports = frappe.get_all(
+        "Insights Report Schedule",
+        filters={"workbook": workbook},
+        fields=["name", "workbook", "last_execution", "last_status", *REPORT_FIELDS],
+        order_by="creation desc",
+    )
+    for report in reports:
+        report.filters = frappe.parse_json(report.filters) or {}
+        report.send_time = str(report.send_time) if report.send_time else None
+        report.next_execution = frappe.get_doc(
+            "Insights Report Schedule", report.name
+        ).next_execution
+    return reports
+
+
+@insights_whitelist()
+@validate_type
+def save_report(report: dict):
+    report = frappe._dict(report)
+    check_workbook_permission(report.workbook)
+
+    if report.name:
+        doc = frappe.get_doc("Insights Report Schedule", report.name)
+        if doc.workbook != report.workbook:
+            frappe.throw("Report does not belong to this workbook")
+    else:
+        doc = frappe.new_doc("Insights Report Schedule")
+        doc.workbook = report.workbook
+
+    for field in REPORT_FIELDS:
+        if field in report:
+            doc.set(field, report[field])
+    doc.filters = frappe.as_json(report.filters or {})
+    doc.save(ignore_permissions=True)
+    return doc.name
+
+
+@insights_whitelist()
+@validate_type
+def delete_report(name: str):
+    doc = frappe.get_doc("Insights Report Schedule", name)
+    check_workbook_permission(doc.workbook)
+    frappe.db.delete("Insights Report Log", {"report": name})
+    doc.delete(ignore_permissions=True)
+
+
+@insights_whitelist()
+@validate_type
+def send_report(name: str):
+    doc = frappe.get_doc("Insights Report Schedule", name)
+    check_workbook_permission(doc.workbook)
+    return doc.send()
+
+
+@insights_whitelist()
+@validate_type
+def get_report_history(workbook: str, report: str | None = None, limit: int = 50):
+    check_workbook_permission(workbook)
+    filters = {"workbook": workbook}
+    if report:
+        filters["report"] = report
+    return frappe.get_all(
+        "Insights Report Log",
+        filters=filters,
+        fields=[
+            "name",
+            "report",
+            "status",
+            "format",
+            "recipients",
+            "error",
+            "creation",
+        ],
+        order_by="creation desc",
+        limit=limit,
+    )
+
+
+def check_workbook_permission(workbook: str):
+    if not frappe.has_permission("Insights Workbook", "write", workbook):
+        frappe.throw(
+            "You do not have permission to schedule reports of this workbook",
+            frappe.PermissionError,
+        )
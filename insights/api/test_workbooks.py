@@ -0,0 +1,52 @@
+# Copyright (c) 2026, Frappe Technologies Pvt. Ltd. and Contributors
+# See license.txt
+
+import unittest
+
+import pandas as pd
+
+from .workbooks import apply_number_formats, format_number, to_decimals
+
+
+class TestNumberFormats(unittest.TestCase):
+    def test_decimals(self):
+        self.assertEqual(format_number(1234.5678, {"decimals": 2}), "1,234.57")
+        self.assertEqual(format_number(1234.5678, {"decimals": 0}), "1,235")
+        # without decimals, upto 2 decimals are shown
+        self.assertEqual(format_number(1234.5, {}), "1,234.5")
+
+    def test_invalid_decimals(self):
+        self.assertEqual(format_number(1234.5, {"decimals": "abc"}), "1,234.5")
+        self.assertEqual(format_number(1234.6, {"decimals": -3}), "1,235")
+        self.assertIsNone(to_decimals(None))
+        self.assertIsNone(to_decimals(float("inf")))
+        self.assertEqual(to_decimals("4"), 4)
+        self.assertEqual(to_decimals(50), 20)
+
+    def test_negative_in_parentheses(self):
+        number_format = {"decimals": 0, "negative_style": "parentheses", "prefix": "$"}
+        self.assertEqual(format_number(-1234.6, number_format), "($1,235)")
+        self.assertEqual(format_number(1234.6, number_format), "$1,235")
+
+    def test_missing_values(self):
+        self.assertEqual(format_number(None, {"decimals": 2}), "")
+        self.assertEqual(format_number(float("nan"), {"decimals": 2}), "")
+
+    def test_apply_number_formats(self):
+        results = pd.DataFrame(
+            {
+                "region": ["North", "South"],
+                "sales": [1000.0, 2500.75],
+                "East___2026___sales": [10.0, None],
+                "count": [1, 2],
+            }
+        )
+        formats = {"sales": {"decimals": 1}, "region": {"decimals": 1}}
+        results = apply_number_formats(results, formats)
+
+        self.assertEqual(list(results["sales"]), ["1,000", "2,500.8"])
+        # pivoted columns are formatted as per their measure
+        self.assertEqual(list(results["East___2026___sales"]), ["10", ""])
+        # columns without a format or with text are not changed
+        self.assertEqual(list(results["count"]), [1, 2])
+        self.assertEqual(list(results["region"]), ["North", "South"])
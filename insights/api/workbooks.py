@@ -1,5 +1,14 @@
 import frappe
 import ibis
+import pandas as pd
+from babel import Locale, UnknownLocaleError
+from babel.numbers import (
+    format_compact_currency,
+    format_compact_decimal,
+    format_currency,
+    format_decimal,
+    format_percent,
+)
 from ibis import _
 
 from insights.decorators import insights_whitelist
@@ -8,19 +17,33 @@ from insights.insights.doctype.insights_data_source_v3.ibis_utils import (
     execute_ibis_query,
     get_columns_from_schema,
 )
+from insights.insights.doctype.insights_data_source_v3.query_execution import (
+    cancel_execution,
+)
 from insights.utils import DocShare
 
 
 @insights_whitelist()
-def fetch_query_results(operations, limit=100, use_live_connection=True):
+def fetch_query_results(
+    operations,
+    limit=100,
+    use_live_connection=True,
+    parameters=None,
+    offset=0,
+    execution_id=None,
+):
     results = []
-    ibis_query = IbisQueryBuilder().build(operations, use_live_connection)
+    ibis_query = IbisQueryBuilder().build(operations, use_live_connection, parameters)
     if ibis_query is None:
         return
 
     columns = get_columns_from_schema(ibis_query.schema())
     results, time_taken = execute_ibis_query(
-        ibis_query, limit=limit, cache_expiry=60 * 10
+        ibis_query,
+        limit=limit,
+        offset=offset,
+        cache_expiry=60 * 10,
+        execution_id=execution_id,
     )
     results = results.to_dict(orient="records")
 
@@ -33,8 +56,13 @@ def fetch_query_results(operations, limit=100, use_live_connection=True):
 
 
 @insights_whitelist()
-def fetch_query_results_count(operations, use_live_connection=True):
-    ibis_query = IbisQueryBuilder().build(operations, use_live_connection)
+def cancel_query_execution(execution_id: str):
+    cancel_execution(execution_id)
+
+
+@insights_whitelist()
+def fetch_query_results_count(operations, use_live_connection=True, parameters=None):
+    ibis_query = IbisQueryBuilder().build(operations, use_live_connection, parameters)
     if ibis_query is None:
         return
 
@@ -45,20 +73,97 @@ def fetch_query_results_count(operations, use_live_connection=True):
 
 
 @insights_whitelist()
-def download_query_results(operations, use_live_connection=True):
-    ibis_query = IbisQueryBuilder().build(operations, use_live_connection)
+def download_query_results(
+    operations, use_live_connection=True, parameters=None, formats=None, locale=None
+):
+    ibis_query = IbisQueryBuilder().build(operations, use_live_connection, parameters)
     if ibis_query is None:
         return
 
     results, time_taken = execute_ibis_query(ibis_query, cache=False, limit=10_00_000)
+    if formats:
+        results = apply_number_formats(results, frappe.parse_json(formats), locale)
     return results.to_csv(index=False)
 
 
+def apply_number_formats(results: pd.DataFrame, formats: dict, locale=None):
+    for column in results.columns:
+        # pivoted columns are named as value1___value2___measure
+        number_format = formats.get(column) or formats.get(column.split("___")[-1])
+        if number_format and pd.api.types.is_numeric_dtype(results[column]):
+            results[column] = results[column].apply(
+                lambda value: format_number(value, number_format, locale)
+            )
+    return results
+
+
+def format_number(value, number_format: dict, locale=None):
+    if value is None or pd.isna(value):
+        return ""
+
+    locale = get_babel_locale(number_format.get("locale") or locale)
+    decimals = to_decimals(number_format.get("decimals"))
+    compact = number_format.get("compact")
+    currency = (number_format.get("currency") or "").upper()
+    format_type = number_format.get("type")
+    in_parentheses = value < 0 and number_format.get("negative_style") == "parentheses"
+    number = abs(value) if in_parentheses else value
+
+    fraction = ".##" if decimals is None else ("." + "#" * decimals if decimals else "")
+    if format_type == "currency" and currency:
+        if compact:
+            formatted = format_compact_currency(
+                number, currency, locale=locale, fraction_digits=decimals or 0
+            )
+        elif decimals is not None:
+            pattern = "¤#,##0" + ("." + "0" * decimals if decimals else "")
+            formatted = format_currency(
+                number, currency, format=pattern, locale=locale, currency_digits=False
+            )
+        else:
+            formatted = format_currency(number, currency, locale=locale)
+    elif format_type == "percent":
+        formatted = format_percent(
+            number, format="#,##0" + fraction + "%", locale=locale
+        )
+    elif compact:
+        formatted = format_compact_decimal(
+            number, locale=locale, fraction_digits=decimals or 0
+        )
+    else:
+        formatted = format_decimal(number, format="#,##0" + fraction, locale=locale)
+
+    prefix = number_format.get("prefix") or ""
+    suffix = number_format.get("suffix") or ""
+    formatted = f"{prefix}{formatted}{suffix}"
+    return f"({formatted})" if in_parentheses else formatted
+
+
+def to_decimals(decimals):
+    # invalid values are ignored, like in the formatting of the frontend
+    try:
+        return min(max(int(float(decimals)), 0), 20)
+    except (TypeError, ValueError, OverflowError):
+        return None
+
+
+def get_babel_locale(locale=None):
+    try:
+        return Locale.parse((locale or "en-US").replace("-", "_"))
+    except (UnknownLocaleError, ValueError):
+        return Locale.parse("en_US")
+
+
 @insights_whitelist()
 def get_distinct_column_values(
-    operations, column_name, search_term=None, use_live_connection=True, limit=20
+    operations,
+    column_name,
+    search_term=None,
+    use_live_connection=True,
+    limit=20,
+    parameters=None,
 ):
-    query = IbisQueryBuilder().build(operations, use_live_connection)
+    query = IbisQueryBuilder().build(operations, use_live_connection, parameters)
     values_query = (
         query.select(column_name)
         .filter(
@@ -74,8 +179,8 @@ def get_distinct_column_values(
 
 
 @insights_whitelist()
-def get_columns_for_selection(operations, use_live_connection=True):
-    query = IbisQueryBuilder().build(operations, use_live_connection)
+def get_columns_for_selection(operations, use_live_connection=True, parameters=None):
+    query = IbisQueryBuilder().build(operations, use_live_connection, parameters)
     columns = get_columns_from_schema(query.schema())
     return columns
 
@@ -231,7 +336,7 @@ def update_share_permissions(
 
 
 @frappe.whitelist(allow_guest=True)
-def fetch_shared_chart_data(chart_name: str):
+def fetch_shared_chart_data(chart_name: str, parameters=None):
     workbooks = frappe.get_all(
         "Insights Workbook",
         filters={"charts": ["like", f"%{chart_name}%"]},
@@ -241,4 +346,4 @@ def fetch_shared_chart_data(chart_name: str):
         frappe.throw("Chart not found")
 
     workbook = frappe.get_doc("Insights Workbook", workbooks[0])
-    return workbook.get_shared_chart_data(chart_name)
+    return workbook.get_shared_chart_data(chart_name, frappe.parse_json(parameters))
@@ -154,8 +154,8 @@ doc_events = {
 scheduler_events = {
     "all": [
         "insights.insights.doctype.insights_alert.insights_alert.send_alerts",
-    ],
-    "daily": [
+        "insights.insights.doctype.insights_report_schedule.insights_report_schedule.send_reports",
+        "insights.insights.doctype.insights_chart_alert.insights_chart_alert.evaluate_chart_alerts",
         "insights.api.data_store.sync_tables",
     ],
     "hourly": [
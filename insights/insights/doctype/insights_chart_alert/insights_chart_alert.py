@@ -0,0 +1,373 @@
+# Copyright (c) 2026, Frappe Technologies Pvt. Ltd. and contributors
+# For license information, please see license.txt
+
+import ipaddress
+import operator
+import socket
+from datetime import timedelta
+from urllib.parse import urlparse
+
+import frappe
+import requests
+from croniter import croniter
+from frappe.desk.doctype.notification_log.notification_log import (
+    enqueue_create_notification,
+)
+from frappe.model.document import Document
+from frappe.utils import escape_html, validate_email_address
+from frappe.utils.data import flt, get_datetime, get_datetime_str, now_datetime
+from requests.adapters import HTTPAdapter
+
+from insights.insights.doctype.insights_report_schedule.insights_report_schedule import (
+    get_cron_format,
+    get_next_execution,
+    is_valid_timezone,
+    run_as,
+)
+
+OPERATORS = {
+    ">": operator.gt,
+    ">=": operator.ge,
+    "<": operator.lt,
+    "<=": operator.le,
+    "=": operator.eq,
+    "!=": operator.ne,
+}
+
+
+class InsightsChartAlert(Document):
+    # begin: auto-generated types
+    # This code is auto-generated. Do not modify anything in this block.
+
+    from typing import TYPE_CHECKING
+
+    if TYPE_CHECKING:
+        from frappe.types import DF
+
+        chart: DF.Data
+        check_time: DF.Time | None
+        condition: DF.Literal["Latest Value", "Total", "Percent Change"]
+        cooldown: DF.Int
+        cron_format: DF.Data | None
+        disabled: DF.Check
+        frequency: DF.Literal["Hourly", "Daily", "Weekly", "Monthly", "Cron"]
+        last_execution: DF.Datetime | None
+        last_fired_on: DF.Datetime | None
+        last_value: DF.Float
+        measure: DF.Data
+        notify_email: DF.Check
+        notify_in_app: DF.Check
+        notify_webhook: DF.Check
+        operator: DF.Literal[">", ">=", "<", "<=", "=", "!="]
+        recipients: DF.SmallText | None
+        threshold: DF.Float
+        timezone: DF.Data | None
+        title: DF.Data
+        webhook_url: DF.Data | None
+        workbook: DF.Link
+    # end: auto-generated types
+
+    def validate(self):
+        self.get_chart()
+        if self.notify_email:
+            self.get_recipients()
+        if self.notify_webhook:
+            validate_webhook_url(self.webhook_url)
+        if not (self.notify_email or self.notify_webhook or self.notify_in_app):
+            frappe.throw("Select at least one channel to notify")
+        if self.frequency == "Cron" and not croniter.is_valid(
+            self.cron_format or ""
+        ):
+            frappe.throw(f"Invalid cron format: {self.cron_format}")
+        if self.timezone and not is_valid_timezone(self.timezone):
+            frappe.throw(f"Invalid time zone: {self.timezone}")
+
+    @property
+    def next_execution(self):
+        next_execution = self.get_next_execution()
+        return get_datetime_str(next_execution) if next_execution else None
+
+    def get_next_execution(self):
+        cron_format = get_cron_format(
+            self.frequency, self.check_time, self.cron_format
+        )
+        return get_next_execution(
+            cron_format, self.last_execution or self.creation, self.timezone
+        )
+
+    def is_due(self):
+        if self.disabled:
+            return False
+        next_execution = self.get_next_execution()
+        return bool(next_execution and next_execution <= now_datetime())
+
+    def in_cooldown(self):
+        if not self.last_fired_on or not self.cooldown:
+            return False
+        cooldown_ends_on = get_datetime(self.last_fired_on) + timedelta(
+            minutes=self.cooldown
+        )
+        return cooldown_ends_on > now_datetime()
+
+    def get_recipients(self):
+        recipients = [
+            r.strip() for r in (self.recipients or "").split(",") if r.strip()
+        ]
+        if not recipients:
+            frappe.throw("At least one recipient is required")
+        for recipient in recipients:
+            if not validate_email_address(recipient):
+                frappe.throw(f"{recipient} is not a valid email address")
+        return recipients
+
+    def get_chart(self):
+        workbook = frappe.get_cached_doc("Insights Workbook", self.workbook)
+        chart = next(
+            (c for c in frappe.parse_json(workbook.charts) if c["name"] == self.chart),
+            None,
+        )
+        if not chart:
+            frappe.throw(f"Chart {self.chart} not found")
+        return chart
+
+    def get_value(self):
+        workbook = frappe.get_cached_doc("Insights Workbook", self.workbook)
+        # the saved operations of the chart are run with the permissions of the owner
+        with run_as(self.owner):
+            data = workbook.get_shared_chart_data(
+                self.chart, limit=10_00_000, ignore_permissions=False
+            )
+
+        rows = (data["results"] or {}).get("rows", [])
+        date_column = get_date_column(self.get_chart())
+        return get_alert_value(rows, self.measure, self.condition, date_column)
+
+    def is_triggered(self, value):
+        if value is None:
+            return False
+        return OPERATORS[self.operator](value, flt(self.threshold))
+
+    def evaluate(self, force=False):
+        """
+        Checks the condition of the alert and notifies if it is triggered.
+        With `force`, the alert is sent even if the condition is not met
+        """
+        value = self.get_value()
+        self.db_set(
+            {"last_execution": now_datetime(), "last_value": value},
+            update_modified=False,
+        )
+        if not force and (not self.is_triggered(value) or self.in_cooldown()):
+            return None
+        return self.fire(value)
+
+    def fire(self, value):
+        log = frappe.new_doc("Insights Chart Alert Log")
+        log.alert = self.name
+        log.workbook = self.workbook
+        log.chart = self.chart
+        log.value = value
+        log.threshold = self.threshold
+
+        channels = []
+        errors = []
+        for channel, enabled, notify in [
+            ("Email", self.notify_email, self.send_email),
+            ("Webhook", self.notify_webhook, self.send_webhook),
+            ("In App", self.notify_in_app, self.send_notification),
+        ]:
+            if not enabled:
+                continue
+            try:
+                notify(value)
+                channels.append(channel)
+            except Exception:
+                errors.append(f"{channel}:\n{frappe.get_traceback()}")
+                frappe.log_error(title=f"Failed to send alert {self.name}")
+
+        log.channels = ", ".join(channels)
+        log.status = "Failed" if errors else "Fired"
+        log.error = "\n".join(errors) or None
+        log.insert(ignore_permissions=True)
+        self.db_set("last_fired_on", now_datetime(), update_modified=False)
+        return log.status
+
+    def get_message(self, value):
+        chart = self.get_chart()
+        chart_title = chart.get("title") or self.chart
+        suffix = "%" if self.condition == "Percent Change" else ""
+        return (
+            f"{self.condition} of {self.measure} in {chart_title} is "
+            f"{flt(value, 2)}{suffix} (alert when {self.operator} "
+            f"{flt(self.threshold, 2)}{suffix})"
+        )
+
+    def get_chart_url(self):
+        return frappe.utils.get_url(f"/insights/shared/chart/{self.chart}")
+
+    def send_email(self, value):
+        message = (
+            f"<p>{escape_html(self.get_message(value))}</p>"
+            f'<p><a href="{self.get_chart_url()}">View Chart</a></p>'
+        )
+        frappe.sendmail(
+            recipients=self.get_recipients(),
+            subject=f"Insights Alert: {self.title}",
+            message=frappe.render_template(
+                "insights/templates/alert.html", context=frappe._dict(message=message)
+            ),
+            now=True,
+        )
+
+    def send_webhook(self, value):
+        # the host may resolve to a different address since the alert was saved,
+        # the request is sent to the address that was checked without resolving it again
+        address = validate_webhook_url(self.webhook_url)
+        session = requests.Session()
+        session.trust_env = False
+        adapter = PinnedAddressAdapter(address)
+        session.mount("http://", adapter)
+        session.mount("https://", adapter)
+        with session:
+            response = session.post(
+                self.webhook_url,
+                json={
+                    "alert": self.name,
+                    "title": self.title,
+                    "message": self.get_message(value),
+                    "workbook": self.workbook,
+                    "chart": self.chart,
+                    "measure": self.measure,
+                    "condition": self.condition,
+                    "operator": self.operator,
+                    "threshold": self.threshold,
+                    "value": value,
+                    "url": self.get_chart_url(),
+                },
+                timeout=10,
+                allow_redirects=False,
+            )
+        response.raise_for_status()
+
+    def send_notification(self, value):
+        users = {self.owner}
+        if self.notify_email:
+            users.update(
+                frappe.get_all(
+                    "User",
+                    filters={"email": ["in", self.get_recipients()], "enabled": 1},
+                    pluck="name",
+                )
+            )
+        enqueue_create_notification(
+            list(users),
+            {
+                "type": "Alert",
+                "document_type": self.doctype,
+                "document_name": self.name,
+                "subject": f"Insights Alert: {escape_html(self.title)}",
+                "email_content": escape_html(self.get_message(value)),
+                "from_user": self.owner,
+            },
+        )
+
+
+def validate_webhook_url(url) -> str:
+    """
+    Returns the address the host of the webhook URL resolves to.
+    Only public http(s) hosts are allowed so that alerts can not reach internal services
+    """
+    parsed = urlparse(url or "")
+    if parsed.scheme not in ("http", "https") or not parsed.hostname:
+        frappe.throw("Webhook URL must be a http or https URL")
+
+    try:
+        addresses = socket.getaddrinfo(parsed.hostname, parsed.port)
+    except (socket.gaierror, ValueError):
+        frappe.throw(f"Could not resolve the host of the webhook URL {parsed.hostname}")
+
+    for address in addresses:
+        # ipv6 addresses can have a zone, eg. fe80::1%eth0
+        ip = ipaddress.ip_address(address[4][0].split("%")[0])
+        if not ip.is_global:
+            frappe.throw("Webhook URL can not point to a private or local address")
+    return addresses[0][4][0].split("%")[0]
+
+
+class PinnedAddressAdapter(HTTPAdapter):
+    """
+    Connects to the given address instead of resolving the host of the request again.
+    The host is still sent in the Host header and used to verify the certificate
+    """
+
+    def __init__(self, address, **kwargs):
+        self.address = address
+        super().__init__(**kwargs)
+
+    def send(self, request, **kwargs):
+        parsed = urlparse(request.url)
+        host = with_brackets(parsed.hostname)
+        address = with_brackets(self.address)
+        request.headers["Host"] = f"{host}:{parsed.port}" if parsed.port else host
+        request.url = parsed._replace(
+            netloc=f"{address}:{parsed.port}" if parsed.port else address
+        ).geturl()
+        if parsed.scheme == "https":
+            self.poolmanager.connection_pool_kw["server_hostname"] = parsed.hostname
+            self.poolmanager.connection_pool_kw["assert_hostname"] = parsed.hostname
+        return super().send(request, **kwargs)
+
+
+def with_brackets(host):
+    # ipv6 addresses are wrapped in brackets in URLs and headers
+    return f"[{host}]" if ":" in host else host
+
+
+def get_date_column(chart):
+    # the x-axis of axis charts or the date column of number charts
+    config = chart.get("config") or {}
+    for key in ("x_axis", "date_column"):
+        dimension = config.get(key) or {}
+        if dimension.get("data_type") in ("Date", "Datetime", "Time"):
+            return dimension.get("dimension_name") or dimension.get("column_name")
+
+
+def get_alert_value(rows, measure, condition, date_column=None):
+    """
+    Returns the value the alert condition is checked against.
+    The latest & previous values are the last two rows of the chart,
+    ordered by the date column if the chart has one
+    """
+    if date_column:
+        rows = sorted(rows, key=lambda row: str(row.get(date_column) or ""))
+    values = [flt(row.get(measure)) for row in rows if row.get(measure) is not None]
+    if not values:
+        return None
+
+    if condition == "Total":
+        return sum(values)
+    if condition == "Percent Change":
+        if len(values) < 2 or not values[-2]:
+            return None
+        return (values[-1] - values[-2]) / abs(values[-2]) * 100
+    return values[-1]
+
+
+def evaluate_chart_alerts():
+    # called every few minutes via hooks,
+    # evaluates the alerts that are due in the background
+    alerts = frappe.get_all(
+        "Insights Chart Alert", filters={"disabled": 0}, pluck="name"
+    )
+    for name in alerts:
+        alert = frappe.get_doc("Insights Chart Alert", name)
+        if not alert.is_due():
+            continue
+        # mark as evaluated so that the alert is not picked up again before the job runs
+        alert.db_set("last_execution", now_datetime(), update_modified=False)
+        frappe.enqueue_doc(
+            doctype="Insights Chart Alert",
+            name=name,
+            method="evaluate",
+            queue="long",
+        )
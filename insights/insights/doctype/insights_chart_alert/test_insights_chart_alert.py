@@ -0,0 +1,120 @@
+# Copyright (c) 2026, Frappe Technologies Pvt. Ltd. and Contributors
+# See license.txt
+
+import socket
+from datetime import timedelta
+from unittest.mock import patch
+
+import frappe
+import requests
+from frappe.tests.utils import FrappeTestCase
+from frappe.utils.data import now_datetime
+
+from insights.insights.doctype.insights_chart_alert.insights_chart_alert import (
+    PinnedAddressAdapter,
+    get_alert_value,
+    get_date_column,
+    validate_webhook_url,
+)
+
+ROWS = [
+    {"month": "2026-03-01", "revenue": 300},
+    {"month": "2026-01-01", "revenue": 100},
+    {"month": "2026-02-01", "revenue": 200},
+]
+
+
+def get_addresses(*ips):
+    return [(socket.AF_INET, socket.SOCK_STREAM, 6, "", (ip, 443)) for ip in ips]
+
+
+class TestInsightsChartAlert(FrappeTestCase):
+    def test_latest_value(self):
+        self.assertEqual(get_alert_value(ROWS, "revenue", "Latest Value", "month"), 300)
+        # without a date column the last row is the latest
+        self.assertEqual(get_alert_value(ROWS, "revenue", "Latest Value"), 200)
+
+    def test_total(self):
+        self.assertEqual(get_alert_value(ROWS, "revenue", "Total", "month"), 600)
+
+    def test_percent_change(self):
+        value = get_alert_value(ROWS, "revenue", "Percent Change", "month")
+        self.assertEqual(value, 50)
+
+        rows = [
+            {"month": "2026-01-01", "revenue": 0},
+            {"month": "2026-02-01", "revenue": 10},
+        ]
+        self.assertIsNone(get_alert_value(rows, "revenue", "Percent Change", "month"))
+        self.assertIsNone(get_alert_value(ROWS[:1], "revenue", "Percent Change"))
+
+    def test_missing_values(self):
+        rows = [{"month": "2026-01-01", "revenue": None}]
+        self.assertIsNone(get_alert_value(rows, "revenue", "Latest Value", "month"))
+        self.assertIsNone(get_alert_value([], "revenue", "Total"))
+
+    def test_date_column(self):
+        x_axis = {"column_name": "posting_date", "dimension_name": "month"}
+        chart = {"config": {"x_axis": {**x_axis, "data_type": "Date"}}}
+        self.assertEqual(get_date_column(chart), "month")
+
+        chart = {"config": {"x_axis": {**x_axis, "data_type": "String"}}}
+        self.assertIsNone(get_date_column(chart))
+
+    def test_trigger(self):
+        alert = frappe.new_doc("Insights Chart Alert")
+        alert.operator = ">"
+        alert.threshold = 100
+        self.assertTrue(alert.is_triggered(150))
+        self.assertFalse(alert.is_triggered(100))
+        self.assertFalse(alert.is_triggered(None))
+
+    def test_cooldown(self):
+        alert = frappe.new_doc("Insights Chart Alert")
+        alert.cooldown = 60
+        self.assertFalse(alert.in_cooldown())
+
+        alert.last_fired_on = now_datetime() - timedelta(minutes=30)
+        self.assertTrue(alert.in_cooldown())
+
+        alert.last_fired_on = now_datetime() - timedelta(minutes=90)
+        self.assertFalse(alert.in_cooldown())
+
+    def test_webhook_url(self):
+        for url in [
+            "",
+            "ftp://hooks.example.com/alert",
+            "http://127.0.0.1/alert",
+            "http://10.0.0.1:8000/alert",
+            "http://[::1]/alert",
+        ]:
+            with self.assertRaises(frappe.ValidationError):
+                validate_webhook_url(url)
+
+    def test_webhook_url_resolving_to_private_address(self):
+        addresses = get_addresses("93.184.216.34", "192.168.1.10")
+        with patch("socket.getaddrinfo", return_value=addresses):
+            with self.assertRaises(frappe.ValidationError):
+                validate_webhook_url("https://hooks.example.com/alert")
+
+    def test_webhook_url_address(self):
+        addresses = get_addresses("93.184.216.34")
+        with patch("socket.getaddrinfo", return_value=addresses):
+            address = validate_webhook_url("https://hooks.example.com/alert")
+        self.assertEqual(address, "93.184.216.34")
+
+    def test_pinned_address(self):
+        adapter = PinnedAddressAdapter("93.184.216.34")
+        request = requests.Request(
+            "POST", "https://hooks.example.com:8443/alert", json={}
+        ).prepare()
+        with patch("requests.adapters.HTTPAdapter.send") as send:
+            adapter.send(request)
+
+        sent_request = send.call_args.args[0]
+        self.assertEqual(sent_request.url, "https://93.184.216.34:8443/alert")
+        self.assertEqual(sent_request.headers["Host"], "hooks.example.com:8443")
+        # the certificate is still verified against the host
+        pool_kwargs = adapter.poolmanager.connection_pool_kw
+        self.assertEqual(pool_kwargs["server_hostname"], "hooks.example.com")
+        self.assertEqual(pool_kwargs["assert_hostname"], "hooks.example.com")
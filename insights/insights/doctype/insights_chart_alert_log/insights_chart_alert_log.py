@@ -0,0 +1,27 @@
+# Copyright (c) 2026, Frappe Technologies Pvt. Ltd. and contributors
+# For license information, please see license.txt
+
+# import frappe
+from frappe.model.document import Document
+
+
+class InsightsChartAlertLog(Document):
+    # begin: auto-generated types
+    # This code is auto-generated. Do not modify anything in this block.
+
+    from typing import TYPE_CHECKING
+
+    if TYPE_CHECKING:
+        from frappe.types import DF
+
+        alert: DF.Link
+        channels: DF.Data | None
+        chart: DF.Data | None
+        error: DF.LongText | None
+        status: DF.Literal["Fired", "Failed"]
+        threshold: DF.Float
+        value: DF.Float
+        workbook: DF.Link | None
+    # end: auto-generated types
+
+    pass
@@ -94,6 +94,7 @@ class WarehouseTableImporter:
         self.warehouse_table_name = ""
         self.warehouse_folder = ""
         self.imported_batch_paths = []
+        self.incremental = False
 
         self.log = None
         self.settings = frappe._dict()
@@ -140,11 +141,35 @@ class WarehouseTableImporter:
 
         with db_connections():
             self.prepare_log()
-            self.prepare_settings()
-            self.prepare_remote_table()
-            self.start_batch_import()
+            try:
+                self.prepare_settings()
+                self.prepare_remote_table()
+            except Exception as e:
+                self.mark_as_failed(e)
+            else:
+                self.start_batch_import()
             self.update_log()
+            self.update_sync_status()
+
+        if self.log.status == "Failed":
+            create_toast(
+                f"Failed to import {frappe.bold(self.table.table_name)} to the data store. "
+                "Please check the sync history for more details.",
+                title="Import Failed",
+                type="error",
+                duration=7,
+            )
+            return
 
+        # results cached by the clients before the sync completed are stale now
+        frappe.publish_realtime(
+            event="insights_table_synced",
+            message={
+                "data_source": self.table.data_source,
+                "table_name": self.table.table_name,
+            },
+            after_commit=True,
+        )
         create_toast(
             f"Imported {frappe.bold(self.table.table_name)} to the data store. "
             "Please refresh the query to see the updated data.",
@@ -174,17 +199,41 @@ class WarehouseTableImporter:
         )
 
     def prepare_settings(self) -> dict:
+        table = get_insights_table(self.table.data_source, self.table.table_name)
+        table.db_set(
+            {
+                "last_sync_status": "In Progress",
+                "last_sync_attempt_on": self.log.started_at,
+            },
+            update_modified=False,
+            commit=True,
+        )
         self.settings.row_limit = (
-            frappe.db.get_single_value("Insights Settings", "max_records_to_sync")
+            table.row_limit
+            or frappe.db.get_single_value("Insights Settings", "max_records_to_sync")
             or 10_00_000
         )
         self.settings.memory_limit = (
             frappe.db.get_single_value("Insights Settings", "max_memory_usage") or 512
         )
+        self.settings.sync_mode = table.sync_mode or "Full"
+        self.settings.incremental_column = table.incremental_column
+        self.settings.incremental_strategy = table.incremental_strategy or "Append"
+        self.settings.unique_key = table.unique_key
+        self.settings.bookmark = table.last_sync_bookmark
+
+        # the first sync of an incremental table is always a full import
+        self.incremental = bool(
+            self.settings.sync_mode == "Incremental"
+            and self.settings.incremental_column
+            and self.settings.bookmark
+            and os.path.exists(self.table.parquet_filepath)
+        )
         self.log.db_set(
             {
                 "row_limit": self.settings.row_limit,
                 "memory_limit": self.settings.memory_limit,
+                "sync_mode": "Incremental" if self.incremental else "Full",
             },
             commit=True,
         )
@@ -192,6 +241,25 @@ class WarehouseTableImporter:
     def prepare_remote_table(self) -> Expr:
         self.remote_table = self.table.get_remote_table()
 
+        incremental_column = self.settings.incremental_column
+        if incremental_column and not hasattr(self.remote_table, incremental_column):
+            frappe.throw(
+                f"Column {incremental_column} does not exist in {self.table.table_name}"
+            )
+
+        if self.incremental:
+            # only fetch the rows added or updated since the last sync,
+            # oldest first so that the next sync continues from where the row limit
+            # stopped. the rows at the bookmark are fetched again as more rows may
+            # share it, the ones that were already imported are dropped while merging
+            column = self.remote_table[incremental_column]
+            bookmark = ibis.literal(self.settings.bookmark).cast(column.type())
+            self.remote_table = self.remote_table.filter(column >= bookmark)
+            self.remote_table = self.remote_table.order_by(column)
+            self.remote_table = self.remote_table.limit(self.settings.row_limit)
+            self.log.db_set("query", ibis.to_sql(self.remote_table), commit=True)
+            return
+
         if hasattr(self.remote_table, "creation"):
             self.remote_table = self.remote_table.order_by(ibis.desc("creation"))
 
@@ -202,9 +270,12 @@ class WarehouseTableImporter:
             self.remote_table = self.remote_table.mutate(__row_number=ibis.row_number())
 
     def start_batch_import(self):
-        self.primary_key = (
-            "creation" if hasattr(self.remote_table, "creation") else "__row_number"
-        )
+        if self.incremental:
+            self.primary_key = self.settings.incremental_column
+        else:
+            self.primary_key = (
+                "creation" if hasattr(self.remote_table, "creation") else "__row_number"
+            )
         self.warehouse_table_name = self.table.warehouse_table_name
         self.warehouse_folder = get_warehouse_folder_path()
         self.imported_batch_paths = []
@@ -217,11 +288,15 @@ class WarehouseTableImporter:
             self.log.status = "Completed"
             self.log.log_output("Import completed successfully.", commit=True)
         except Exception as e:
-            self.log.status = "Failed"
-            self.log.log_output(f"Error: \n{e}", commit=True)
+            self.mark_as_failed(e)
         finally:
             self._cleanup()
 
+    def mark_as_failed(self, error: Exception):
+        self.log.status = "Failed"
+        self.log.error = str(error)
+        self.log.log_output(f"Error: \n{error}", commit=True)
+
     def calculate_batch_size(self) -> int:
         sample_size = 10
         sample_rows = self.remote_table.head(sample_size).execute()
@@ -241,7 +316,9 @@ class WarehouseTableImporter:
         return batch_size
 
     def process_batches(self, batch_size: int):
-        remote_table = self.remote_table.order_by(self.primary_key)
+        ordered_table = self.remote_table.order_by(self.primary_key)
+        primary_key = _[self.primary_key]
+        remote_table = ordered_table
         batch_number = 0
 
         while True:
@@ -254,9 +331,17 @@ class WarehouseTableImporter:
             if metadata["count"] < batch_size:
                 break
 
-            remote_table = remote_table.filter(
-                _[self.primary_key] > metadata["max_primary_key"]
-            )
+            # the primary key may not be unique, so every batch ends where the key
+            # changes: the rows with the last key of this batch are moved to the next.
+            # if the whole batch has the same key, all the rows with it are fetched
+            max_primary_key = metadata["max_primary_key"]
+            if metadata["min_primary_key"] == max_primary_key:
+                batch = ordered_table.filter(primary_key == max_primary_key)
+                self.create_parquet_file(batch, batch_number)
+                remote_table = ordered_table.filter(primary_key > max_primary_key)
+            else:
+                self.drop_rows_with_last_key(path)
+                remote_table = ordered_table.filter(primary_key >= max_primary_key)
             batch_number += 1
 
     def create_parquet_file(self, batch: Expr, batch_number: int) -> str:
@@ -272,6 +357,7 @@ class WarehouseTableImporter:
         metadata = (
             batch.aggregate(
                 count=_.count(),
+                min_primary_key=_[self.primary_key].min(),
                 max_primary_key=_[self.primary_key].max(),
             )
             .execute()
@@ -284,6 +370,16 @@ class WarehouseTableImporter:
         ddb.disconnect()
         return metadata
 
+    def drop_rows_with_last_key(self, path: str):
+        ddb = ibis.duckdb.connect(":memory:")
+        batch = ddb.read_parquet(path)
+        primary_key = batch[self.primary_key]
+        batch = batch.filter(primary_key < primary_key.max())
+        temp_path = f"{path}.tmp"
+        batch.to_parquet(temp_path, compression="snappy")
+        os.replace(temp_path, path)
+        ddb.disconnect()
+
     def merge_batches(self):
         ddb = ibis.duckdb.connect(":memory:")
         merged = ddb.read_parquet(
@@ -294,18 +390,68 @@ class WarehouseTableImporter:
         )
         if hasattr(merged, "__row_number"):
             merged = merged.drop("__row_number")
-        merged.to_parquet(path, compression="snappy")
 
-        total_rows = int(merged.count().execute())
+        rows_imported = int(merged.count().execute())
+        if self.incremental:
+            self.validate_bookmark_progress(merged, rows_imported)
+            merged = self.merge_with_existing_table(ddb, merged, path)
+
+        # write to a temporary file first, the existing file may still be read while merging
+        temp_path = f"{path}.tmp"
+        merged.to_parquet(temp_path, compression="snappy")
+        os.replace(temp_path, path)
+
+        total_rows = int(ddb.read_parquet(path).count().execute())
+        self.settings.row_count = total_rows
+        if self.settings.incremental_column:
+            bookmark = ddb.read_parquet(path)[self.settings.incremental_column].max()
+            bookmark = bookmark.execute()
+            self.settings.bookmark = str(bookmark) if bookmark is not None else None
+
         self.log.parquet_file = path
-        self.log.rows_imported = total_rows
+        self.log.rows_imported = rows_imported
         self.log.log_output(
             f"Total Batches: {len(self.imported_batch_paths)}\n"
+            f"Rows Imported: {rows_imported}\n"
             f"Total Rows: {total_rows}",
             commit=True,
         )
         ddb.disconnect()
 
+    def merge_with_existing_table(self, ddb: BaseBackend, new_rows: Expr, path: str):
+        existing = ddb.read_parquet(path)
+        if set(existing.columns) != set(new_rows.columns):
+            frappe.throw(
+                "Columns of the table have changed since the last sync. "
+                "Please run a full sync."
+            )
+
+        new_rows = new_rows.select(existing.columns).cast(existing.schema())
+        if self.settings.incremental_strategy == "Upsert":
+            unique_key = self.settings.unique_key
+            if not unique_key or unique_key not in existing.columns:
+                frappe.throw(f"Unique key {unique_key} does not exist in the table")
+            # drop the older versions of the updated rows
+            existing = existing.anti_join(new_rows, unique_key)
+            return existing.union(new_rows)
+
+        # the rows at the bookmark of the last sync were imported again,
+        # so the existing rows with that value are replaced by the new ones
+        existing = existing.anti_join(new_rows, self.settings.incremental_column)
+        return existing.union(new_rows)
+
+    def validate_bookmark_progress(self, new_rows: Expr, rows_imported: int):
+        # the next sync starts at the last value of the incremental column,
+        # it would fetch the same rows forever if all of them have the same value
+        if rows_imported < self.settings.row_limit:
+            return
+        column = self.settings.incremental_column
+        if new_rows[column].nunique().execute() <= 1:
+            frappe.throw(
+                f"More than {self.settings.row_limit} rows have the same value of "
+                f"{column}. Please increase the row limit or use another column."
+            )
+
     def update_log(self):
         self.log.db_set(
             {
@@ -317,6 +463,20 @@ class WarehouseTableImporter:
             commit=True,
         )
 
+    def update_sync_status(self):
+        table = get_insights_table(self.table.data_source, self.table.table_name)
+        failed = self.log.status == "Failed"
+        table.db_set(
+            {
+                "last_sync_status": self.log.status,
+                "last_sync_error": self.log.error if failed else None,
+                # used to retry the failed syncs as per the retry policy of the table
+                "retry_count": (table.retry_count or 0) + 1 if failed else 0,
+            },
+            update_modified=False,
+            commit=True,
+        )
+
     def update_insights_table(self):
         t = InsightsTablev3.get_doc(
             {
@@ -326,6 +486,11 @@ class WarehouseTableImporter:
         )
         t.stored = 1
         t.last_synced_on = frappe.utils.now()
+        t.row_count = self.settings.row_count
+        t.last_sync_bookmark = self.settings.bookmark
+        t.last_sync_duration = frappe.utils.time_diff_in_seconds(
+            t.last_synced_on, self.log.started_at
+        )
         t.save()
 
     def _cleanup(self):
@@ -341,6 +506,15 @@ def _start_table_import(data_source: str, table_name: str):
     importer.start_import()
 
 
+def get_insights_table(data_source: str, table_name: str):
+    return InsightsTablev3.get_doc(
+        {
+            "data_source": data_source,
+            "table": table_name,
+        }
+    )
+
+
 def get_warehouse_folder_path() -> str:
     path = os.path.realpath(get_files_path(is_private=1))
     path = os.path.join(path, "insights_data_warehouse")
@@ -17,20 +17,29 @@ from insights.cache_utils import make_digest
 from insights.insights.doctype.insights_table_v3.insights_table_v3 import (
     InsightsTablev3,
 )
-from insights.insights.query_builders.sql_functions import handle_timespan
+from insights.insights.query_builders.sql_functions import (
+    get_fiscal_year_start_date,
+    handle_timespan,
+)
 from insights.utils import create_execution_log
 from insights.utils import deep_convert_dict_to_dict as _dict
 
 from .ibis_functions import get_functions
+from .query_execution import register_execution, unregister_execution
+from .query_parameters import resolve_parameters, substitute_sql_parameters
 
 
 class IbisQueryBuilder:
-    def build(self, operations: list, use_live_connection=True) -> IbisQuery:
+    def build(
+        self, operations: list, use_live_connection=True, parameters=None
+    ) -> IbisQuery:
         self.query = None
         self.use_live_connection = use_live_connection
+        self.parameters = _dict(parameters or {})
         for idx, operation in enumerate(operations):
             try:
                 operation = _dict(operation)
+                operation = resolve_parameters(operation, self.parameters)
                 self.query = self.perform_operation(operation)
             except frappe.exceptions.ValidationError as e:
                 raise e
@@ -68,6 +77,8 @@ class IbisQueryBuilder:
             return self.apply_order_by(operation)
         elif operation.type == "limit":
             return self.apply_limit(operation)
+        elif operation.type == "window_operation":
+            return self.apply_window_operation(operation)
         elif operation.type == "pivot_wider":
             return self.apply_pivot(operation, "wider")
         elif operation.type == "custom_operation":
@@ -91,6 +102,7 @@ class IbisQueryBuilder:
             _table = IbisQueryBuilder().build(
                 table_args.operations,
                 use_live_connection=self.use_live_connection,
+                parameters=table_args.parameters,
             )
 
         if _table is None:
@@ -371,6 +383,62 @@ class IbisQueryBuilder:
     def apply_limit(self, limit_args):
         return self.query.limit(int(limit_args.limit))
 
+    def apply_window_operation(self, window_args):
+        new_name = sanitize_name(window_args.new_name)
+        new_column = self.translate_window_operation(window_args)
+        return self.query.mutate(**{new_name: new_column})
+
+    def translate_window_operation(self, window_args):
+        op = window_args.op
+        column = (
+            self.get_column(window_args.column.column_name)
+            if window_args.column and window_args.column.column_name
+            else None
+        )
+        partition_by = (
+            self.get_column(window_args.partition_by.column_name)
+            if window_args.partition_by and window_args.partition_by.column_name
+            else None
+        )
+        order_by = (
+            self.get_column(window_args.order_by.column_name)
+            if window_args.order_by and window_args.order_by.column_name
+            else None
+        )
+
+        if op != "row_number" and column is None:
+            frappe.throw(f"Column is required for {op} window operation")
+
+        if op == "sum":
+            window = ibis.cumulative_window(group_by=partition_by, order_by=order_by)
+            return column.sum().over(window)
+        if op == "lag_difference":
+            window = ibis.window(group_by=partition_by, order_by=order_by)
+            return column - column.lag().over(window)
+        if op == "row_number":
+            window = ibis.window(group_by=partition_by, order_by=order_by)
+            # ibis ranking functions are zero-based
+            return ibis.row_number().over(window) + 1
+        if op in ("rank", "dense_rank"):
+            rank_order = order_by if order_by is not None else ibis.desc(column)
+            window = ibis.window(group_by=partition_by, order_by=rank_order)
+            rank_fn = ibis.rank if op == "rank" else ibis.dense_rank
+            return rank_fn().over(window) + 1
+        if op == "moving_average":
+            window_size = int(window_args.window_size or 3)
+            window = ibis.window(
+                group_by=partition_by,
+                order_by=order_by,
+                preceding=window_size - 1,
+                following=0,
+            )
+            return column.mean().over(window)
+        if op == "percent_of_total":
+            window = ibis.window(group_by=partition_by)
+            return (column * 100) / column.sum().over(window)
+
+        frappe.throw(f"Window operation {op} is not supported")
+
     def apply_pivot(self, pivot_args, pivot_type):
         rows = [self.translate_dimension(dimension) for dimension in pivot_args["rows"]]
         columns = [
@@ -429,6 +497,7 @@ class IbisQueryBuilder:
 
         ds = frappe.get_doc("Insights Data Source v3", data_source)
         db = ds._get_ibis_backend()
+        raw_sql = substitute_sql_parameters(raw_sql, self.parameters, dialect=db.name)
         return db.sql(raw_sql)
 
     def apply_code(self, code_args):
@@ -512,6 +581,18 @@ class IbisQueryBuilder:
             month = (quarter * 3) - 2
             quarter_start = ibis.date(year, month, 1)
             return quarter_start.strftime("%Y-%m-%d").name(column.get_name())
+        if granularity in ("fiscal_quarter", "fiscal_year"):
+            fy_start_month = get_fiscal_year_start_date().month
+            period_months = 3 if granularity == "fiscal_quarter" else 12
+            year = column.year()
+            month = column.month()
+            # months elapsed since the start of the fiscal year, rounded down to the period
+            elapsed = (month - fy_start_month + 12) % 12
+            elapsed = elapsed - (elapsed % period_months)
+            start_month = (fy_start_month - 1 + elapsed) % 12 + 1
+            start_year = ibis.case().when(start_month > month, year - 1).else_(year).end()
+            period_start = ibis.date(start_year, start_month, 1)
+            return period_start.strftime("%Y-%m-%d").name(column.get_name())
 
         format_str = {
             "day": "%Y-%m-%d",
@@ -541,21 +622,35 @@ class IbisQueryBuilder:
         return {col: getattr(self.query, col) for col in self.query.schema().names}
 
 
-def execute_ibis_query(query: IbisQuery, limit=100, cache=True, cache_expiry=3600):
+def execute_ibis_query(
+    query: IbisQuery,
+    limit=100,
+    cache=True,
+    cache_expiry=3600,
+    offset=0,
+    execution_id=None,
+):
     sql = ibis.to_sql(query)
     backends, _ = query._find_backends()
     backend_id = backends[0].db_identity if backends else None
-    cache_key = make_digest(sql, backend_id)
+
+    limit = int(limit or 100)
+    limit = min(max(limit, 1), 10_00_000)
+    offset = max(int(offset or 0), 0)
+    # different pages of the same query are cached separately
+    cache_key = make_digest(sql, backend_id, limit, offset)
 
     if cache and has_cached_results(cache_key):
         return get_cached_results(cache_key), -1
 
-    limit = int(limit or 100)
-    limit = min(max(limit, 1), 10_00_000)
-    query = query.head(limit) if limit else query
+    query = query.limit(limit, offset=offset)
 
+    register_execution(execution_id, backends[0] if backends else None)
     start = time.monotonic()
-    result: pd.DataFrame = query.execute()
+    try:
+        result: pd.DataFrame = query.execute()
+    finally:
+        unregister_execution(execution_id)
     time_taken = flt(time.monotonic() - start, 3)
     create_execution_log(sql, time_taken)
 
@@ -0,0 +1,98 @@
+import frappe
+from ibis.backends import BaseBackend
+
+EXECUTION_EXPIRY = 60 * 60
+
+
+def get_execution_key(execution_id):
+    return f"insights:query_execution:{execution_id}"
+
+
+def get_cancellation_key(execution_id):
+    return f"insights:query_execution_cancelled:{execution_id}"
+
+
+def register_execution(execution_id, backend: BaseBackend | None):
+    """
+    Stores the connection id of the backend executing the query,
+    so that the query can be killed from another request with `cancel_execution`
+    """
+    if not execution_id:
+        return
+
+    frappe.cache().set_value(
+        get_execution_key(execution_id),
+        {
+            "user": frappe.session.user,
+            "data_source": get_data_source_name(backend),
+            "connection_id": get_connection_id(backend),
+        },
+        expires_in_sec=EXECUTION_EXPIRY,
+    )
+
+
+def unregister_execution(execution_id):
+    if not execution_id:
+        return
+
+    frappe.cache().delete_value(get_execution_key(execution_id))
+    cancelled_by = frappe.cache().get_value(get_cancellation_key(execution_id))
+    if cancelled_by:
+        frappe.cache().delete_value(get_cancellation_key(execution_id))
+    if cancelled_by == frappe.session.user:
+        frappe.throw("Query execution was cancelled", title="Cancelled")
+
+
+def cancel_execution(execution_id):
+    execution = frappe.cache().get_value(get_execution_key(execution_id))
+    if execution and execution.get("user") != frappe.session.user:
+        frappe.throw("Not permitted to cancel this query", frappe.PermissionError)
+
+    # the flag makes sure the results are discarded even if the query can't be
+    # killed on the database, or isn't registered yet. It holds the user who
+    # cancelled, so that only their own executions are discarded
+    frappe.cache().set_value(
+        get_cancellation_key(execution_id),
+        frappe.session.user,
+        expires_in_sec=EXECUTION_EXPIRY,
+    )
+    if not execution:
+        return
+
+    execution = frappe._dict(execution)
+    if not execution.data_source or not execution.connection_id:
+        return
+
+    data_source = frappe.get_doc("Insights Data Source v3", execution.data_source)
+    db = data_source._get_ibis_backend()
+    connection_id = int(execution.connection_id)
+    if db.name == "mysql":
+        db.raw_sql(f"KILL QUERY {connection_id}")
+    elif db.name == "postgres":
+        db.raw_sql(f"SELECT pg_cancel_backend({connection_id})")
+
+
+def get_data_source_name(backend: BaseBackend | None):
+    connections = getattr(frappe.local, "insights_db_connections", None) or {}
+    for data_source, db in connections.items():
+        if db is backend:
+            return data_source
+
+
+def get_connection_id(backend: BaseBackend | None):
+    if backend is None:
+        return
+
+    query = {
+        "mysql": "SELECT CONNECTION_ID()",
+        "postgres": "SELECT pg_backend_pid()",
+    }.get(backend.name)
+    if not query:
+        return
+
+    try:
+        with backend.raw_sql(query) as cursor:
+            return cursor.fetchone()[0]
+    except Exception:
+        # cancellation is best effort, the query still runs without it
+        return
@@ -0,0 +1,145 @@
+import re
+
+import frappe
+import sqlglot
+
+from insights.utils import deep_convert_dict_to_dict as _dict
+
+PARAMETER_PATTERN = re.compile(r"\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}")
+
+
+def has_parameters(value) -> bool:
+    return bool(PARAMETER_PATTERN.search(frappe.as_json(value)))
+
+
+def get_parameter_values(parameters: list | None, overrides: dict | None = None):
+    """
+    Merges the default values of the declared parameters with the overrides
+    (from dashboards, shared links or url query strings) and parses them as per the parameter type.
+    Overrides for parameters that are not declared on the query are ignored.
+    """
+    overrides = overrides or {}
+    values = {}
+    for parameter in parameters or []:
+        parameter = _dict(parameter)
+        value = overrides.get(parameter.name)
+        if value is None:
+            value = parameter.get("default_value")
+        value = parse_parameter_value(parameter.type, value)
+        if value is not None:
+            values[parameter.name] = value
+    return values
+
+
+def parse_parameter_value(parameter_type, value):
+    if value is None or value == "":
+        return None
+
+    def to_list(v):
+        if isinstance(v, list | tuple):
+            return [str(i) for i in v]
+        return [i.strip() for i in str(v).split(",") if i.strip()]
+
+    if parameter_type == "Number":
+        try:
+            return float(value) if "." in str(value) else int(value)
+        except ValueError:
+            frappe.throw(f"Invalid number value: {value}")
+    if parameter_type == "List":
+        return to_list(value)
+    if parameter_type == "DateRange":
+        value = to_list(value)
+        if len(value) != 2:
+            frappe.throw("Date range must have a start and an end date")
+        return value
+    if isinstance(value, list | tuple):
+        return ",".join(str(v) for v in value)
+    return str(value)
+
+
+def resolve_parameters(operation, parameters: dict):
+    """
+    Replaces {{parameter}} placeholders in filter values and expressions of an operation.
+    Placeholders in raw SQL are replaced later by `substitute_sql_parameters`
+    because the values need to be quoted as per the data source dialect.
+    """
+    if operation.type in ("sql", "source", "join", "union"):
+        return operation
+    if not has_parameters(operation):
+        return operation
+
+    operation = _dict(frappe.parse_json(frappe.as_json(operation)))
+
+    if operation.type == "filter":
+        resolve_filter_parameters(operation, parameters)
+    elif operation.type == "filter_group":
+        for filter in operation.filters:
+            resolve_filter_parameters(filter, parameters)
+    elif operation.type in ("mutate", "custom_operation"):
+        operation.expression.expression = substitute_expression_parameters(
+            operation.expression.expression, parameters
+        )
+    elif operation.type in ("summarize", "pivot_wider"):
+        measures = operation.measures if operation.type == "summarize" else operation.values
+        for measure in measures:
+            if measure.get("expression"):
+                measure.expression.expression = substitute_expression_parameters(
+                    measure.expression.expression, parameters
+                )
+
+    return operation
+
+
+def resolve_filter_parameters(filter, parameters):
+    if filter.get("expression"):
+        filter.expression.expression = substitute_expression_parameters(
+            filter.expression.expression, parameters
+        )
+        return
+
+    value = filter.get("value")
+    if isinstance(value, str):
+        filter.value = resolve_value(value, parameters)
+    elif isinstance(value, list):
+        resolved = []
+        for v in value:
+            v = resolve_value(v, parameters) if isinstance(v, str) else v
+            # a list parameter used inside a list value ("in" operator) is flattened
+            if isinstance(v, list):
+                resolved.extend(v)
+            else:
+                resolved.append(v)
+        filter.value = resolved
+
+
+def resolve_value(value: str, parameters: dict):
+    match = PARAMETER_PATTERN.fullmatch(value.strip())
+    if match:
+        return get_parameter(match.group(1), parameters)
+
+    return PARAMETER_PATTERN.sub(
+        lambda m: str(get_parameter(m.group(1), parameters)), value
+    )
+
+
+def substitute_expression_parameters(expression: str, parameters: dict):
+    # values are inserted as python literals since expressions are evaluated as python code
+    return PARAMETER_PATTERN.sub(
+        lambda m: repr(get_parameter(m.group(1), parameters)), expression
+    )
+
+
+def substitute_sql_parameters(raw_sql: str, parameters: dict, dialect: str | None = None):
+    def to_sql_literal(m):
+        value = get_parameter(m.group(1), parameters)
+        if isinstance(value, list):
+            value = tuple(value)
+        return sqlglot.exp.convert(value).sql(dialect=dialect)
+
+    return PARAMETER_PATTERN.sub(to_sql_literal, raw_sql)
+
+
+def get_parameter(name, parameters):
+    if name not in (parameters or {}):
+        frappe.throw(f"Parameter {frappe.bold(name)} is not defined or has no value")
+    return parameters[name]
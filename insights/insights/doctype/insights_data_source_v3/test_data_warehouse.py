@@ -0,0 +1,80 @@
+# Copyright (c) 2026, Frappe Technologies Pvt. Ltd. and Contributors
+# See license.txt
+
+import os
+import shutil
+import tempfile
+from unittest.mock import MagicMock
+
+import frappe
+import ibis
+import pandas as pd
+from frappe.tests.utils import FrappeTestCase
+
+from .data_warehouse import WarehouseTableImporter
+
+
+class TestDataWarehouse(FrappeTestCase):
+    def setUp(self):
+        self.warehouse_folder = tempfile.mkdtemp()
+        self.importer = WarehouseTableImporter(MagicMock())
+        self.importer.log = MagicMock()
+        self.importer.warehouse_folder = self.warehouse_folder
+        self.importer.warehouse_table_name = "test_table"
+        self.importer.primary_key = "key"
+        self.importer.settings = frappe._dict(
+            row_limit=100,
+            incremental_column="key",
+            incremental_strategy="Append",
+        )
+
+    def tearDown(self):
+        shutil.rmtree(self.warehouse_folder)
+
+    def read_batches(self):
+        return [pd.read_parquet(path) for path in self.importer.imported_batch_paths]
+
+    def test_batches_end_where_the_key_changes(self):
+        keys = [1, 1, 1, 2, 2, 3, 3, 3, 3, 4]
+        rows = pd.DataFrame({"id": range(len(keys)), "key": keys})
+        self.importer.remote_table = ibis.memtable(rows)
+        self.importer.process_batches(batch_size=3)
+
+        batches = self.read_batches()
+        # a batch with a single key is extended to all the rows with that key
+        self.assertEqual([len(batch) for batch in batches], [3, 2, 4, 1])
+        self.assertEqual([set(batch.key) for batch in batches], [{1}, {2}, {3}, {4}])
+
+        ids = pd.concat(batches).id
+        self.assertEqual(len(ids), len(keys))
+        self.assertTrue(ids.is_unique)
+
+    def test_append_replaces_the_rows_at_the_bookmark(self):
+        path = os.path.join(self.warehouse_folder, "test_table.parquet")
+        existing = pd.DataFrame({"key": [1, 2, 3], "value": ["old", "old", "old"]})
+        existing.to_parquet(path)
+
+        # the rows from the bookmark of the last sync onwards
+        new_rows = pd.DataFrame({"key": [3, 3, 4], "value": ["new", "new", "new"]})
+        batch_path = os.path.join(self.warehouse_folder, "test_table_0.parquet")
+        new_rows.to_parquet(batch_path)
+
+        self.importer.incremental = True
+        self.importer.imported_batch_paths = [batch_path]
+        self.importer.merge_batches()
+
+        merged = pd.read_parquet(path).sort_values(["key", "value"])
+        self.assertEqual(list(merged.key), [1, 2, 3, 3, 4])
+        self.assertEqual(list(merged.value), ["old", "old", "new", "new", "new"])
+        self.assertEqual(self.importer.settings.bookmark, "4")
+        self.assertEqual(self.importer.settings.row_count, 5)
+
+    def test_bookmark_progress(self):
+        self.importer.settings.row_limit = 3
+        rows = ibis.memtable(pd.DataFrame({"key": [1, 1, 1]}))
+        with self.assertRaises(frappe.ValidationError):
+            self.importer.validate_bookmark_progress(rows, 3)
+
+        # the next sync can start after the bookmark
+        rows = ibis.memtable(pd.DataFrame({"key": [1, 1, 2]}))
+        self.importer.validate_bookmark_progress(rows, 3)
@@ -0,0 +1,25 @@
+# Copyright (c) 2026, Frappe Technologies Pvt. Ltd. and contributors
+# For license information, please see license.txt
+
+# import frappe
+from frappe.model.document import Document
+
+
+class InsightsReportLog(Document):
+    # begin: auto-generated types
+    # This code is auto-generated. Do not modify anything in this block.
+
+    from typing import TYPE_CHECKING
+
+    if TYPE_CHECKING:
+        from frappe.types import DF
+
+        error: DF.LongText | None
+        format: DF.Data | None
+        recipients: DF.SmallText | None
+        report: DF.Link
+        status: DF.Literal["Sent", "Failed"]
+        workbook: DF.Link | None
+    # end: auto-generated types
+
+    pass
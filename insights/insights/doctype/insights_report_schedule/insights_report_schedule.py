@@ -0,0 +1,286 @@
+# Copyright (c) 2026, Frappe Technologies Pvt. Ltd. and contributors
+# For license information, please see license.txt
+
+from contextlib import contextmanager
+from datetime import datetime
+from io import BytesIO
+from urllib.parse import urlencode
+from zoneinfo import ZoneInfo, ZoneInfoNotFoundError
+
+import frappe
+import pandas as pd
+from croniter import croniter
+from frappe.model.document import Document
+from frappe.utils import validate_email_address
+from frappe.utils.data import (
+    get_datetime,
+    get_datetime_str,
+    get_system_timezone,
+    get_time,
+    now_datetime,
+)
+from PIL import Image
+
+from insights.insights.doctype.insights_workbook.insights_workbook import (
+    get_page_preview,
+)
+
+
+class InsightsReportSchedule(Document):
+    # begin: auto-generated types
+    # This code is auto-generated. Do not modify anything in this block.
+
+    from typing import TYPE_CHECKING
+
+    if TYPE_CHECKING:
+        from frappe.types import DF
+
+        cron_format: DF.Data | None
+        disabled: DF.Check
+        filters: DF.JSON | None
+        format: DF.Literal["PDF", "PNG", "CSV"]
+        frequency: DF.Literal["Hourly", "Daily", "Weekly", "Monthly", "Cron"]
+        last_execution: DF.Datetime | None
+        last_status: DF.Literal["", "Sent", "Failed"]
+        recipients: DF.SmallText
+        reference_name: DF.Data
+        reference_type: DF.Literal["Dashboard", "Chart"]
+        send_time: DF.Time | None
+        timezone: DF.Data | None
+        title: DF.Data
+        workbook: DF.Link
+    # end: auto-generated types
+
+    def validate(self):
+        self.get_recipients()
+        self.validate_snapshot()
+        if self.frequency == "Cron" and not croniter.is_valid(
+            self.cron_format or ""
+        ):
+            frappe.throw(f"Invalid cron format: {self.cron_format}")
+        if self.timezone and not is_valid_timezone(self.timezone):
+            frappe.throw(f"Invalid time zone: {self.timezone}")
+
+    @property
+    def next_execution(self):
+        next_execution = self.get_next_execution()
+        return get_datetime_str(next_execution) if next_execution else None
+
+    def get_next_execution(self):
+        cron_format = get_cron_format(self.frequency, self.send_time, self.cron_format)
+        return get_next_execution(
+            cron_format, self.last_execution or self.creation, self.timezone
+        )
+
+    def is_due(self):
+        if self.disabled:
+            return False
+        next_execution = self.get_next_execution()
+        return bool(next_execution and next_execution <= now_datetime())
+
+    def get_recipients(self):
+        recipients = [
+            r.strip() for r in (self.recipients or "").split(",") if r.strip()
+        ]
+        if not recipients:
+            frappe.throw("At least one recipient is required")
+        for recipient in recipients:
+            if not validate_email_address(recipient):
+                frappe.throw(f"{recipient} is not a valid email address")
+        return recipients
+
+    def get_reference(self):
+        workbook = frappe.get_cached_doc("Insights Workbook", self.workbook)
+        field = "dashboards" if self.reference_type == "Dashboard" else "charts"
+        reference = next(
+            (
+                d
+                for d in frappe.parse_json(workbook.get(field))
+                if d["name"] == self.reference_name
+            ),
+            None,
+        )
+        if not reference:
+            frappe.throw(f"{self.reference_type} {self.reference_name} not found")
+        return reference
+
+    def validate_snapshot(self):
+        # snapshots are taken of the shared page as a guest would see it,
+        # so the data of a chart or dashboard that is not shared is never included
+        if self.format == "CSV":
+            return
+        if not self.get_reference().get("is_public"):
+            frappe.throw(
+                f"Only a shared {self.reference_type.lower()} can be sent as "
+                f"{self.format}, share it or send it as CSV"
+            )
+
+    @frappe.whitelist()
+    def send(self):
+        log = frappe.new_doc("Insights Report Log")
+        log.report = self.name
+        log.workbook = self.workbook
+        log.format = self.format
+        log.recipients = self.recipients
+
+        try:
+            reference = self.get_reference()
+            title = reference.get("title") or self.reference_name
+            frappe.sendmail(
+                recipients=self.get_recipients(),
+                subject=f"Insights Report: {self.title}",
+                message=frappe.render_template(
+                    "insights/templates/report.html",
+                    context=frappe._dict(
+                        title=self.title,
+                        reference_title=title,
+                        reference_type=self.reference_type.lower(),
+                        url=self.get_reference_url(),
+                    ),
+                ),
+                attachments=self.get_attachments(title),
+                now=True,
+            )
+            log.status = "Sent"
+        except Exception:
+            log.status = "Failed"
+            log.error = frappe.get_traceback()
+            frappe.log_error(title=f"Failed to send report {self.name}")
+
+        log.insert(ignore_permissions=True)
+        self.db_set(
+            {"last_execution": now_datetime(), "last_status": log.status},
+            update_modified=False,
+        )
+        return log.status
+
+    def get_reference_url(self, shared=False):
+        if self.reference_type == "Chart" or shared:
+            reference = "chart" if self.reference_type == "Chart" else "dashboard"
+            path = f"/insights/shared/{reference}/{self.reference_name}"
+        else:
+            path = f"/insights/dashboards/{self.reference_name}"
+
+        filters = frappe.parse_json(self.filters) or {}
+        query = urlencode(filters, doseq=True)
+        return frappe.utils.get_url(f"{path}?{query}" if query else path)
+
+    def get_attachments(self, title):
+        file_name = frappe.scrub(title)
+        if self.format == "CSV":
+            return self.get_csv_attachments()
+
+        # the chart or dashboard may have been unshared since the report was saved
+        self.validate_snapshot()
+        snapshot = get_page_preview(self.get_reference_url(shared=True))
+
+        image = Image.open(BytesIO(snapshot)).convert("RGB")
+        content = BytesIO()
+        image.save(content, format=self.format)
+        return [
+            {
+                "fname": f"{file_name}.{self.format.lower()}",
+                "fcontent": content.getvalue(),
+            }
+        ]
+
+    def get_csv_attachments(self):
+        workbook = frappe.get_cached_doc("Insights Workbook", self.workbook)
+        if self.reference_type == "Chart":
+            chart_names = [self.reference_name]
+        else:
+            dashboard = self.get_reference()
+            chart_names = [
+                item["chart"] for item in dashboard["items"] if item["type"] == "chart"
+            ]
+
+        charts = {c["name"]: c for c in frappe.parse_json(workbook.charts)}
+        parameters = frappe.parse_json(self.filters) or None
+        attachments = []
+        # the data is fetched with the permissions of the owner of the report
+        with run_as(self.owner):
+            for chart_name in chart_names:
+                data = workbook.get_shared_chart_data(
+                    chart_name, parameters, limit=10_00_000, ignore_permissions=False
+                )
+                results = data["results"] or {}
+                columns = [c["name"] for c in results.get("columns", [])]
+                csv = pd.DataFrame(results.get("rows", []), columns=columns).to_csv(
+                    index=False
+                )
+                title = charts.get(chart_name, {}).get("title") or chart_name
+                attachments.append(
+                    {"fname": f"{frappe.scrub(title)}.csv", "fcontent": csv}
+                )
+        return attachments
+
+
+@contextmanager
+def run_as(user):
+    previous_user = frappe.session.user
+    try:
+        frappe.set_user(user)
+        yield
+    finally:
+        frappe.set_user(previous_user)
+
+
+def get_cron_format(frequency, time=None, cron_format=None) -> str | None:
+    if frequency == "Cron":
+        return cron_format
+    if frequency == "Hourly":
+        return "0 * * * *"
+
+    time = get_time(time or "00:00:00")
+    hour, minute = time.hour, time.minute
+    return {
+        "Daily": f"{minute} {hour} * * *",
+        "Weekly": f"{minute} {hour} * * 1",
+        "Monthly": f"{minute} {hour} 1 * *",
+    }.get(frequency)
+
+
+def get_next_execution(cron_format, last_execution, timezone=None) -> datetime | None:
+    """
+    Returns the next run after the last one, in the system time zone.
+    The cron format is evaluated in the given time zone
+    """
+    if not cron_format or not croniter.is_valid(cron_format):
+        return None
+
+    system_timezone = ZoneInfo(get_system_timezone())
+    start_time = get_datetime(last_execution or now_datetime()).replace(
+        tzinfo=system_timezone
+    )
+    next_execution = croniter(
+        cron_format, start_time.astimezone(ZoneInfo(timezone or get_system_timezone()))
+    ).get_next(datetime)
+    return next_execution.astimezone(system_timezone).replace(tzinfo=None)
+
+
+def is_valid_timezone(timezone: str) -> bool:
+    try:
+        ZoneInfo(timezone)
+        return True
+    except (ZoneInfoNotFoundError, ValueError):
+        return False
+
+
+def send_reports():
+    # called every few minutes via hooks,
+    # sends the reports that are due in the background
+    reports = frappe.get_all(
+        "Insights Report Schedule", filters={"disabled": 0}, pluck="name"
+    )
+    for name in reports:
+        report = frappe.get_doc("Insights Report Schedule", name)
+        if not report.is_due():
+            continue
+        # mark as sent so that the report is not picked up again before the job runs
+        report.db_set("last_execution", now_datetime(), update_modified=False)
+        frappe.enqueue_doc(
+            doctype="Insights Report Schedule",
+            name=name,
+            method="send",
+            queue="long",
+        )
@@ -0,0 +1,68 @@
+# Copyright (c) 2026, Frappe Technologies Pvt. Ltd. and Contributors
+# See license.txt
+
+from datetime import datetime
+from unittest.mock import patch
+
+from frappe.tests.utils import FrappeTestCase
+
+from insights.insights.doctype.insights_report_schedule.insights_report_schedule import (
+    get_cron_format,
+    get_next_execution,
+    is_valid_timezone,
+)
+
+SYSTEM_TIMEZONE = (
+    "insights.insights.doctype.insights_report_schedule."
+    "insights_report_schedule.get_system_timezone"
+)
+
+
+@patch(SYSTEM_TIMEZONE, return_value="Asia/Kolkata")
+class TestInsightsReportSchedule(FrappeTestCase):
+    def test_cron_format(self, _):
+        self.assertEqual(get_cron_format("Hourly", "09:30:00"), "0 * * * *")
+        self.assertEqual(get_cron_format("Daily", "09:30:00"), "30 9 * * *")
+        self.assertEqual(get_cron_format("Weekly", "18:05:00"), "5 18 * * 1")
+        self.assertEqual(get_cron_format("Monthly"), "0 0 1 * *")
+        self.assertEqual(get_cron_format("Cron", None, "*/15 * * * *"), "*/15 * * * *")
+
+    def test_next_execution(self, _):
+        # 2026-01-05 is a monday
+        last_execution = datetime(2026, 1, 5, 10, 0)
+        self.assertEqual(
+            get_next_execution("0 9 * * *", last_execution),
+            datetime(2026, 1, 6, 9, 0),
+        )
+        self.assertEqual(
+            get_next_execution("0 9 * * 1", last_execution),
+            datetime(2026, 1, 12, 9, 0),
+        )
+
+    def test_next_execution_in_timezone(self, _):
+        # 10:00 in Kolkata is 04:30 in UTC, 09:00 in UTC is 14:30 in Kolkata
+        last_execution = datetime(2026, 1, 5, 10, 0)
+        self.assertEqual(
+            get_next_execution("0 9 * * *", last_execution, "UTC"),
+            datetime(2026, 1, 5, 14, 30),
+        )
+        # 09:00 in New York is 14:00 in UTC in winter & 13:00 in UTC in summer
+        self.assertEqual(
+            get_next_execution("0 9 * * *", last_execution, "America/New_York"),
+            datetime(2026, 1, 5, 19, 30),
+        )
+        self.assertEqual(
+            get_next_execution(
+                "0 9 * * *", datetime(2026, 7, 6, 10, 0), "America/New_York"
+            ),
+            datetime(2026, 7, 6, 18, 30),
+        )
+
+    def test_invalid_cron_format(self, _):
+        self.assertIsNone(get_next_execution("", datetime(2026, 1, 5)))
+        self.assertIsNone(get_next_execution("0 25 * * *", datetime(2026, 1, 5)))
+
+    def test_timezone(self, _):
+        self.assertTrue(is_valid_timezone("America/New_York"))
+        self.assertFalse(is_valid_timezone("Mars/Olympus_Mons"))
+        self.assertFalse(is_valid_timezone(""))
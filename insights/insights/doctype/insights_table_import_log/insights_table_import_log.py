@@ -17,6 +17,7 @@ class InsightsTableImportLog(Document):
         batch_size: DF.Int
         data_source: DF.Data
         ended_at: DF.Datetime | None
+        error: DF.SmallText | None
         memory_limit: DF.Int
         output: DF.LongText | None
         parquet_file: DF.Text | None
@@ -26,6 +27,7 @@ class InsightsTableImportLog(Document):
         rows_imported: DF.Int
         started_at: DF.Datetime | None
         status: DF.Literal["In Progress", "Completed", "Failed"]
+        sync_mode: DF.Data | None
         table_name: DF.Data
         time_taken: DF.Int
     # end: auto-generated types
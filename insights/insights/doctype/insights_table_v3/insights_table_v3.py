@@ -2,11 +2,20 @@
 # For license information, please see license.txt
 
 
+from datetime import datetime
 from hashlib import md5
 
 import frappe
+from croniter import croniter
 from frappe.model.document import Document
 from frappe.permissions import get_valid_perms
+from frappe.utils.data import (
+    add_to_date,
+    get_datetime,
+    get_datetime_str,
+    get_time,
+    now_datetime,
+)
 
 from insights import create_toast
 from insights.insights.doctype.insights_data_source_v3.data_warehouse import Warehouse
@@ -22,16 +31,60 @@ class InsightsTablev3(Document):
     if TYPE_CHECKING:
         from frappe.types import DF
 
+        cron_format: DF.Data | None
         data_source: DF.Link
+        incremental_column: DF.Data | None
+        incremental_strategy: DF.Literal["Append", "Upsert"]
         label: DF.Data
+        last_sync_attempt_on: DF.Datetime | None
+        last_sync_bookmark: DF.Data | None
+        last_sync_duration: DF.Float
+        last_sync_error: DF.SmallText | None
+        last_sync_status: DF.Literal["", "In Progress", "Completed", "Failed"]
         last_synced_on: DF.Datetime | None
+        max_retries: DF.Int
+        next_sync_on: DF.Datetime | None
+        retry_count: DF.Int
+        retry_interval: DF.Int
+        row_count: DF.Int
+        row_limit: DF.Int
         stored: DF.Check
+        sync_frequency: DF.Literal[
+            "Manual", "Hourly", "Daily", "Weekly", "Monthly", "Cron"
+        ]
+        sync_mode: DF.Literal["Full", "Incremental"]
+        sync_time: DF.Time | None
         table: DF.Data
+        unique_key: DF.Data | None
     # end: auto-generated types
 
     def autoname(self):
         self.name = get_table_name(self.data_source, self.table)
 
+    def validate(self):
+        if self.sync_frequency == "Cron" and not croniter.is_valid(
+            self.cron_format or ""
+        ):
+            frappe.throw(f"Invalid cron format: {self.cron_format}")
+
+    @property
+    def next_sync_on(self):
+        next_sync_on = get_next_sync_on(self)
+        return get_datetime_str(next_sync_on) if next_sync_on else None
+
+    def is_sync_due(self):
+        if self.sync_frequency == "Manual" or self.last_sync_status == "In Progress":
+            return False
+
+        now = now_datetime()
+        if self.last_sync_status == "Failed" and self.retry_count <= self.max_retries:
+            retry_on = add_to_date(
+                self.last_sync_attempt_on, minutes=self.retry_interval or 15
+            )
+            return get_datetime(retry_on) <= now
+
+        return get_next_sync_on(self) <= now
+
     @staticmethod
     def bulk_create(data_source: str, tables: list[str]):
         frappe.db.bulk_insert(
@@ -93,6 +146,36 @@ def get_table_name(data_source, table):
     return md5((data_source + table).encode()).hexdigest()[:10]
 
 
+def get_sync_cron_format(table) -> str | None:
+    if table.sync_frequency == "Cron":
+        return table.cron_format
+    if table.sync_frequency == "Hourly":
+        return "0 * * * *"
+
+    sync_time = get_time(table.sync_time or "00:00:00")
+    hour, minute = sync_time.hour, sync_time.minute
+    return {
+        "Daily": f"{minute} {hour} * * *",
+        "Weekly": f"{minute} {hour} * * 0",
+        "Monthly": f"{minute} {hour} 1 * *",
+    }.get(table.sync_frequency)
+
+
+def get_next_sync_on(table) -> datetime | None:
+    """
+    Returns the next scheduled sync after the last sync attempt.
+    Accepts a table document or a dict with the sync schedule fields
+    """
+    cron_format = get_sync_cron_format(table)
+    if not cron_format or not croniter.is_valid(cron_format):
+        return None
+
+    start_time = get_datetime(
+        table.last_sync_attempt_on or table.last_synced_on or datetime(2000, 1, 1)
+    )
+    return croniter(cron_format, start_time).get_next(datetime)
+
+
 def apply_user_permissions(t, data_source, table_name):
     if not frappe.db.get_single_value(
         "Insights Settings", "apply_user_permissions", cache=True
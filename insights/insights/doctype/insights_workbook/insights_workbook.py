@@ -12,6 +12,9 @@ from frappe.query_builder import Interval
 from frappe.query_builder.functions import Now
 
 from insights.api.workbooks import fetch_query_results
+from insights.insights.doctype.insights_data_source_v3.query_parameters import (
+    get_parameter_values,
+)
 from insights.utils import File
 
 
@@ -26,7 +29,9 @@ class InsightsWorkbook(Document):
 
         charts: DF.JSON | None
         dashboards: DF.JSON | None
+        dimensions: DF.JSON | None
         enable_auto_save: DF.Check
+        measures: DF.JSON | None
         name: DF.Int | None
         queries: DF.JSON | None
         title: DF.Data
@@ -42,6 +47,8 @@ class InsightsWorkbook(Document):
         self.queries = frappe.as_json(frappe.parse_json(self.queries))
         self.charts = frappe.as_json(frappe.parse_json(self.charts))
         self.dashboards = frappe.as_json(frappe.parse_json(self.dashboards))
+        self.measures = frappe.as_json(frappe.parse_json(self.measures) or [])
+        self.dimensions = frappe.as_json(frappe.parse_json(self.dimensions) or [])
 
     @frappe.whitelist()
     def track_view(self):
@@ -64,7 +71,9 @@ class InsightsWorkbook(Document):
     def query_map(self):
         return {q["name"]: q for q in frappe.parse_json(self.queries)}
 
-    def get_shared_chart_data(self, chart_name):
+    def get_shared_chart_data(
+        self, chart_name, parameters=None, limit=100, ignore_permissions=True
+    ):
         chart = next(
             (c for c in frappe.parse_json(self.charts) if c["name"] == chart_name), None
         )
@@ -83,11 +92,13 @@ class InsightsWorkbook(Document):
 
         chart_query = self.query_map.get(chart["query"])
         use_live_connection = chart_query.get("use_live_connection", True)
-        operations = self.resolve_query_tables(operations)
+        operations = self.resolve_query_tables(operations, parameters)
 
-        frappe.flags.ignore_insights_permissions = True
+        # shared charts are viewed without access to their tables, unless
+        # the data is fetched for a user with `ignore_permissions` unset
+        frappe.flags.ignore_insights_permissions = ignore_permissions
         results = fetch_query_results(
-            operations, use_live_connection=use_live_connection
+            operations, limit=limit, use_live_connection=use_live_connection
         )
         frappe.flags.ignore_insights_permissions = False
 
@@ -114,7 +125,10 @@ class InsightsWorkbook(Document):
         if any(chart_name == chart["name"] for chart_name in shared_dashboard_charts):
             return True
 
-        preview_key = frappe.request.headers.get("X-Insights-Preview-Key")
+        # there is no request when the data is fetched for a scheduled report
+        preview_key = frappe.request and frappe.request.headers.get(
+            "X-Insights-Preview-Key"
+        )
         if preview_key and frappe.cache.get_value(
             f"insights_preview_key:{preview_key}"
         ):
@@ -122,10 +136,13 @@ class InsightsWorkbook(Document):
 
         return False
 
-    def resolve_query_tables(self, operations):
+    def resolve_query_tables(self, operations, parameters=None, resolving=None):
         if not operations:
             return operations
 
+        # names of the queries being resolved up the chain, to detect circular references
+        resolving = resolving or []
+
         for op in operations:
             if (
                 op["type"] != "source"
@@ -140,9 +157,14 @@ class InsightsWorkbook(Document):
             query_table = self.query_map.get(query_name)
             if not query_table:
                 frappe.throw(f"Query {query_name} not found")
+            if query_name in resolving:
+                frappe.throw(f"Circular dependency detected for query {query_name}")
 
             op["table"]["operations"] = self.resolve_query_tables(
-                query_table["operations"]
+                query_table["operations"], parameters, [*resolving, query_name]
+            )
+            op["table"]["parameters"] = get_parameter_values(
+                query_table.get("parameters"), parameters
             )
 
         return operations
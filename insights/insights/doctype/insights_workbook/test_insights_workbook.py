@@ -1,9 +1,53 @@
 # Copyright (c) 2024, Frappe Technologies Pvt. Ltd. and Contributors
 # See license.txt
 
-# import frappe
+import frappe
 from frappe.tests.utils import FrappeTestCase
 
 
+def get_source(query_name):
+    return {"type": "source", "table": {"type": "query", "query_name": query_name}}
+
+
+def get_workbook(queries):
+    workbook = frappe.new_doc("Insights Workbook")
+    workbook.queries = frappe.as_json(
+        [{"name": name, "operations": operations} for name, operations in queries]
+    )
+    return workbook
+
+
 class TestInsightsWorkbook(FrappeTestCase):
-    pass
+    def test_resolve_query_tables(self):
+        table = {"type": "table", "data_source": "demo", "table_name": "orders"}
+        workbook = get_workbook(
+            [
+                ("orders", [{"type": "source", "table": table}]),
+                ("monthly_orders", [get_source("orders")]),
+            ]
+        )
+
+        operations = workbook.resolve_query_tables([get_source("monthly_orders")])
+        monthly_orders = operations[0]["table"]
+        orders = monthly_orders["operations"][0]["table"]
+        self.assertEqual(orders["operations"], [{"type": "source", "table": table}])
+        self.assertEqual(orders["parameters"], {})
+
+    def test_circular_dependency(self):
+        workbook = get_workbook(
+            [
+                ("orders", [get_source("customers")]),
+                ("customers", [get_source("orders")]),
+            ]
+        )
+        with self.assertRaisesRegex(frappe.ValidationError, "Circular dependency"):
+            workbook.resolve_query_tables([get_source("orders")])
+
+        workbook = get_workbook([("orders", [get_source("orders")])])
+        with self.assertRaisesRegex(frappe.ValidationError, "Circular dependency"):
+            workbook.resolve_query_tables([get_source("orders")])
+
+    def test_missing_query(self):
+        workbook = get_workbook([("orders", [get_source("customers")])])
+        with self.assertRaisesRegex(frappe.ValidationError, "not found"):
+            workbook.resolve_query_tables([get_source("orders")])